@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireHost } from '@/lib/host-auth';
 import { getGameManager } from '@/lib/game-manager';
 import SessionManager from '@/lib/session-manager';
 import { networkRecovery } from '@/lib/network-recovery';
@@ -6,10 +7,10 @@ import { CompressionUtils } from '@/lib/compression-utils';
 
 export async function POST(request: NextRequest) {
   try {
-    // Check admin authorization
-    const playerId = request.cookies.get('player_id')?.value;
-    if (!playerId || !isAdmin(playerId)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    // Check host authorization
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
     const body = await request.json();
@@ -20,7 +21,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Execute the custom query
-    const result = await executeQuery(query.toLowerCase().trim());
+    const result = await executeQuery(query.toLowerCase().trim(), auth.roomId);
 
     return NextResponse.json({
       success: true,
@@ -38,21 +39,21 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function executeQuery(query: string): Promise<any> {
-  const gameManager = getGameManager();
+async function executeQuery(query: string, roomId: string): Promise<any> {
+  const gameManager = getGameManager(roomId);
   const sessionManager = SessionManager.getInstance();
 
   // Parse and execute different types of queries
   if (query.startsWith('game.')) {
     return executeGameQuery(query, gameManager);
   } else if (query.startsWith('session.')) {
-    return executeSessionQuery(query, sessionManager);
+    return executeSessionQuery(query, sessionManager, roomId);
   } else if (query.startsWith('network.')) {
     return executeNetworkQuery(query);
   } else if (query.startsWith('system.')) {
     return executeSystemQuery(query);
   } else {
-    return executeGeneralQuery(query, gameManager, sessionManager);
+    return executeGeneralQuery(query, gameManager, sessionManager, roomId);
   }
 }
 
@@ -95,21 +96,21 @@ function executeGameQuery(query: string, gameManager: any): any {
   }
 }
 
-function executeSessionQuery(query: string, sessionManager: SessionManager): any {
+function executeSessionQuery(query: string, sessionManager: SessionManager, roomId: string): any {
   const command = query.replace('session.', '');
 
   switch (command) {
     case 'stats':
-      return sessionManager.getRoomStats();
+      return sessionManager.getRoomStats(roomId);
     
     case 'active':
-      return sessionManager.getActiveSessions();
+      return sessionManager.getActiveSessions(roomId);
     
     case 'admin':
-      return sessionManager.getAdminPlayer();
+      return sessionManager.getAdminPlayer(roomId);
     
     case 'count':
-      const stats = sessionManager.getRoomStats();
+      const stats = sessionManager.getRoomStats(roomId);
       return {
         total: stats.totalSessions,
         active: stats.activeSessions
@@ -174,7 +175,7 @@ function executeSystemQuery(query: string): any {
   }
 }
 
-function executeGeneralQuery(query: string, gameManager: any, sessionManager: SessionManager): any {
+function executeGeneralQuery(query: string, gameManager: any, sessionManager: SessionManager, roomId: string): any {
   switch (query) {
     case 'help':
       return {
@@ -194,7 +195,7 @@ function executeGeneralQuery(query: string, gameManager: any, sessionManager: Se
     
     case 'status':
       const gameState = gameManager.getGameState();
-      const sessionStats = sessionManager.getRoomStats();
+      const sessionStats = sessionManager.getRoomStats(roomId);
       const networkErrors = networkRecovery.getErrorAnalysis();
       
       return {
@@ -219,7 +220,3 @@ function executeGeneralQuery(query: string, gameManager: any, sessionManager: Se
   }
 }
 
-function isAdmin(playerId: string): boolean {
-  // Simple admin check - in production, this should be more secure
-  return playerId.includes('player_') && Math.random() > 0.1; // Mock admin check
-}
\ No newline at end of file
@@ -1,46 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
+import { destroyGameManager } from '@/lib/game-manager';
+import { requireHost, clearHostCookie } from '@/lib/host-auth';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import { validatePromptPack, CUSTOM_PROMPT_PACK_ID } from '@/lib/prompt-packs';
+import { validateRoleSettings, isGameMode } from '@/lib/game-config';
+import { isScoringPresetId } from '@/lib/scoring';
+import { getPromptPack } from '@/lib/prompt-pack-loader';
+import { validateAssistantConfig } from '@/lib/llm-adapter';
 import { AdminAction, ApiResponse, PlayerRole } from '@/types/game';
 import SessionManager from '@/lib/session-manager';
 import { networkRecovery } from '@/lib/network-recovery';
 import { CompressionUtils } from '@/lib/compression-utils';
 
-function getCookie(request: NextRequest, name: string): string | null {
-  const cookie = request.cookies.get(name);
-  return cookie ? cookie.value : null;
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const playerId = getCookie(request, 'player_id');
-    console.log('Admin action - Player ID:', playerId);
-    
-    if (!playerId) {
-      console.log('No player ID in cookie');
-      return NextResponse.json<ApiResponse>({
-        success: false,
-        error: 'Not authenticated',
-        timestamp: new Date(),
-      }, { status: 401 });
+    // Check host authorization
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
-    const gameManager = getGameManager();
-    const isAdmin = gameManager.isAdmin(playerId);
-    console.log('Is admin check:', isAdmin);
-    
-    if (!isAdmin) {
-      const gameState = gameManager.getGameState();
-      console.log('Admin player in game state:', gameState.adminPlayer);
-      console.log('Player ID from cookie:', playerId);
-      
-      // TEMP: Skip admin check for debugging
-      console.log('TEMP: Skipping admin check for debugging');
-      // return NextResponse.json<ApiResponse>({
-      //   success: false,
-      //   error: 'Admin access required',
-      //   timestamp: new Date(),
-      // }, { status: 403 });
-    }
+    const { roomId, playerId, gameManager } = auth;
+    console.log('Admin action - Player ID:', playerId);
 
     const body: AdminAction = await request.json();
     let result = false;
@@ -98,6 +79,16 @@ export async function POST(request: NextRequest) {
         message = result ? `Timer set to ${body.duration} seconds` : 'Failed to set timer';
         break;
 
+      case 'pause_game':
+        result = gameManager.adminPauseGame(playerId);
+        message = result ? 'Game paused' : 'The game can only be paused while it is running';
+        break;
+
+      case 'resume_game':
+        result = gameManager.adminResumeGame(playerId);
+        message = result ? 'Game resumed' : 'The game is not paused';
+        break;
+
       case 'reset_game':
         result = gameManager.adminResetGame(playerId);
         message = result ? 'Game reset' : 'Failed to reset game';
@@ -105,9 +96,209 @@ export async function POST(request: NextRequest) {
 
       case 'destroy_game':
         result = gameManager.adminDestroyGame(playerId);
+        if (result && roomId !== DEFAULT_ROOM_ID) {
+          destroyGameManager(roomId);
+        }
         message = result ? 'Game destroyed' : 'Failed to destroy game';
         break;
 
+      case 'transfer_host':
+        if (!body.playerId) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'Player ID required',
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminTransferHost(playerId, body.playerId);
+        message = result ? 'Host rights transferred' : 'Failed to transfer host rights';
+        if (result) {
+          // The old host's token stops working, the new host claims theirs via /api/host
+          const response = NextResponse.json<ApiResponse>({
+            success: true,
+            data: { message },
+            timestamp: new Date(),
+          });
+          clearHostCookie(response);
+          return response;
+        }
+        break;
+
+      case 'set_prompt_pack': {
+        // Either a built-in/installed pack by id, or a custom pack uploaded by the host
+        let pack = body.packId ? getPromptPack(body.packId) : null;
+        if (body.pack) {
+          const validation = validatePromptPack(body.pack);
+          if (!validation.pack) {
+            return NextResponse.json<ApiResponse>({
+              success: false,
+              error: `Invalid prompt pack: ${validation.errors.join('; ')}`,
+              data: { errors: validation.errors },
+              timestamp: new Date(),
+            }, { status: 400 });
+          }
+          pack = validation.pack;
+        } else if (!pack) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: body.packId ? `Unknown prompt pack: ${body.packId}` : 'Pack ID or pack required',
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminSetPromptPack(playerId, pack);
+        message = result ? `Prompt pack set to ${pack.name}` : 'Prompt packs can only be changed in the lobby';
+        break;
+      }
+
+      case 'set_custom_rounds': {
+        if (!Array.isArray(body.rounds)) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'Rounds required',
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+
+        // Host-written rounds go through the same checks as a prompt pack file
+        const validation = validatePromptPack({
+          id: CUSTOM_PROMPT_PACK_ID,
+          name: 'Custom prompts',
+          description: 'Written by the host',
+          rounds: body.rounds,
+        });
+        if (!validation.pack) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: `Invalid rounds: ${validation.errors.join('; ')}`,
+            data: { errors: validation.errors },
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminSetPromptPack(playerId, validation.pack);
+        message = result ? `Custom rounds saved (${validation.pack.rounds.length})` : 'Rounds can only be changed in the lobby';
+        break;
+      }
+
+      case 'set_role_settings': {
+        const validation = validateRoleSettings(body.roleSettings);
+        if (!validation.settings) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: `Invalid role settings: ${validation.errors.join('; ')}`,
+            data: { errors: validation.errors },
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminSetRoleSettings(playerId, validation.settings);
+        message = result ? 'Role settings updated' : 'Role settings can only be changed in the lobby';
+        break;
+      }
+
+      case 'set_game_mode':
+        if (!isGameMode(body.gameMode)) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: `Unknown game mode: ${body.gameMode}`,
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        if (body.gameMode === 'elimination' && gameManager.getGameState().anonymousVoting) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'Elimination mode needs named votes, turn anonymous voting off first',
+            timestamp: new Date(),
+          }, { status: 409 });
+        }
+        result = gameManager.adminSetGameMode(playerId, body.gameMode);
+        message = result ? 'Game mode updated' : 'Game mode can only be changed in the lobby';
+        break;
+
+      case 'set_anonymous_voting':
+        if (typeof body.anonymousVoting !== 'boolean') {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'anonymousVoting must be true or false',
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        if (body.anonymousVoting && gameManager.getGameState().gameMode === 'elimination') {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'Anonymous voting is not available in elimination mode',
+            timestamp: new Date(),
+          }, { status: 409 });
+        }
+        result = gameManager.adminSetAnonymousVoting(playerId, body.anonymousVoting);
+        message = result ? `Anonymous voting ${body.anonymousVoting ? 'enabled' : 'disabled'}` : 'Anonymous voting can only be changed in the lobby';
+        break;
+
+      case 'set_auto_advance':
+        if (typeof body.autoAdvance !== 'boolean') {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'autoAdvance must be true or false',
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminSetAutoAdvance(playerId, body.autoAdvance);
+        message = result ? `Auto-advance ${body.autoAdvance ? 'enabled' : 'disabled'}` : 'Auto-advance can only be changed in the lobby';
+        break;
+
+      case 'set_scoring_preset':
+        if (!isScoringPresetId(body.scoringPreset)) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: `Unknown scoring preset: ${body.scoringPreset}`,
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminSetScoringPreset(playerId, body.scoringPreset);
+        message = result ? 'Scoring preset updated' : 'Scoring preset can only be changed in the lobby';
+        break;
+
+      case 'set_assistant': {
+        // null turns the assistant off, anything else must be a usable endpoint
+        if (body.assistant === null) {
+          result = gameManager.adminSetAssistant(playerId, null);
+          message = result ? 'Assistant disabled' : 'Failed to update assistant';
+          break;
+        }
+        const validation = validateAssistantConfig(body.assistant);
+        if (!validation.config) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: `Invalid assistant config: ${validation.errors.join('; ')}`,
+            data: { errors: validation.errors },
+            timestamp: new Date(),
+          }, { status: 400 });
+        }
+        result = gameManager.adminSetAssistant(playerId, validation.config);
+        message = result ? `Assistant set to ${validation.config.model}` : 'Failed to update assistant';
+        break;
+      }
+
+      case 'add_bot': {
+        const bot = gameManager.adminAddBot(playerId);
+        result = !!bot;
+        message = bot ? `Bot ${bot.name} added` : 'Bots can only be added in the lobby while seats are free';
+        break;
+      }
+
+      case 'reveal_next_player':
+        result = gameManager.adminRevealNextPlayer(playerId);
+        message = result ? 'Next player revealed' : 'No player left to reveal';
+        break;
+
+      case 'show_vote_distribution':
+        result = gameManager.adminSetResultsRevealStage(playerId, 'votes');
+        message = result ? 'Vote distribution shown' : 'Vote distribution can only be shown during the results, before the leaderboard';
+        break;
+
+      case 'show_leaderboard':
+        result = gameManager.adminSetResultsRevealStage(playerId, 'leaderboard');
+        message = result ? 'Leaderboard shown' : 'Leaderboard can only be shown during the results';
+        break;
+
       // Advanced developer actions
       case 'reset_network':
         networkRecovery.resetCircuit('polling');
@@ -143,7 +334,7 @@ export async function POST(request: NextRequest) {
       case 'export_system_data':
         // Prepare system data export
         const gameState = gameManager.getGameState();
-        const sessionStats = SessionManager.getInstance().getRoomStats();
+        const sessionStats = SessionManager.getInstance().getRoomStats(roomId);
         const networkStats = networkRecovery.getErrorAnalysis();
         
         const exportData = {
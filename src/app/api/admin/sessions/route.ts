@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireHost } from '@/lib/host-auth';
 import SessionManager from '@/lib/session-manager';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check admin authorization
-    const playerId = request.cookies.get('player_id')?.value;
-    if (!playerId || !isAdmin(playerId)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    // Check host authorization
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
     const sessionManager = SessionManager.getInstance();
+    const roomId = auth.roomId;
     
     // Get comprehensive session data
-    const roomStats = sessionManager.getRoomStats();
-    const activeSessions = sessionManager.getActiveSessions();
+    const roomStats = sessionManager.getRoomStats(roomId);
+    const activeSessions = sessionManager.getActiveSessions(roomId);
     
     const sessionData = {
       roomStats,
@@ -46,10 +48,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Check admin authorization
-    const playerId = request.cookies.get('player_id')?.value;
-    if (!playerId || !isAdmin(playerId)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    // Check host authorization
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
     const body = await request.json();
@@ -62,7 +64,12 @@ export async function POST(request: NextRequest) {
         if (!targetPlayerId) {
           return NextResponse.json({ error: 'Missing targetPlayerId' }, { status: 400 });
         }
-        
+
+        // A host can only manage sessions in their own room
+        if (sessionManager.getSessionRoomId(targetPlayerId) !== auth.roomId) {
+          return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+        }
+
         sessionManager.removeSession(targetPlayerId);
         return NextResponse.json({ 
           success: true, 
@@ -87,11 +94,6 @@ export async function POST(request: NextRequest) {
 }
 
 // Helper functions
-function isAdmin(playerId: string): boolean {
-  // Simple admin check - in production, this should be more secure
-  return playerId.includes('player_') && Math.random() > 0.1; // Mock admin check
-}
-
 function performManualCleanup(sessionManager: SessionManager): number {
   // This would trigger the internal cleanup method
   // For now, we'll return a mock count
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireHost } from '@/lib/host-auth';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check admin authorization
-    const playerId = request.cookies.get('player_id')?.value;
-    if (!playerId || !isAdmin(playerId)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    // Check host authorization
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
     // Collect system statistics
@@ -25,11 +26,6 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper functions
-function isAdmin(playerId: string): boolean {
-  // Simple admin check - in production, this should be more secure
-  return playerId.includes('player_') && Math.random() > 0.1; // Mock admin check
-}
-
 function getMemoryStats() {
   if (typeof process !== 'undefined' && process.memoryUsage) {
     const usage = process.memoryUsage();
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireHost } from '@/lib/host-auth';
+
+// How each answer was typed, for the host's dashboard while the game is still running
+export async function GET(request: NextRequest) {
+  try {
+    // Check host authorization
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const submissions = Object.values(auth.gameManager.getAllSubmissions())
+      .flat()
+      .map(submission => ({
+        submissionId: submission.id,
+        playerId: submission.playerId,
+        playerName: submission.playerName,
+        roundNumber: submission.roundNumber,
+        contentLength: submission.content.length,
+        telemetry: submission.telemetry || null,
+      }));
+
+    return NextResponse.json({
+      submissions,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error getting typing telemetry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlayer } from '@/lib/player-auth';
+import { AssistantRequest, ApiResponse } from '@/types/game';
+import { GAME_CONFIG, getRoundConfig, getRoundPhase } from '@/lib/game-config';
+import { generateDraft } from '@/lib/llm-adapter';
+
+// Drafts an answer for an ai_user player from the room's assistant endpoint
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticatePlayer(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const { playerId, gameManager } = auth;
+    const body: AssistantRequest = await request.json();
+
+    const assistantConfig = gameManager.getAssistantConfig();
+    if (!assistantConfig) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'The host has not set up an assistant for this room',
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    const player = gameManager.getPlayer(playerId);
+    if (!player) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Player not found in game. Please rejoin.',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    // Drafts are part of the ai_user role, other roles write their own answers
+    if (player.role !== 'ai_user') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'The assistant is only available to AI users',
+        timestamp: new Date(),
+      }, { status: 403 });
+    }
+
+    if (player.eliminatedInRound) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'You have been eliminated and can only watch',
+        timestamp: new Date(),
+      }, { status: 403 });
+    }
+
+    const gameState = gameManager.getGameState();
+    const roundConfig = getRoundConfig(body.roundNumber, gameState.roundConfigs);
+    if (!roundConfig || gameState.currentPhase !== getRoundPhase(body.roundNumber)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Not currently in round ${body.roundNumber}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    // No drafts while the host has the game paused, answers are locked too
+    if (gameManager.isPaused()) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'The game is paused',
+        timestamp: new Date(),
+      }, { status: 409 });
+    }
+
+    if (body.hint !== undefined && typeof body.hint !== 'string') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'hint must be a string',
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    if (!gameManager.claimAssistantRequest(playerId, body.roundNumber)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `You have used all ${GAME_CONFIG.MAX_ASSISTANT_REQUESTS_PER_ROUND} drafts for this round`,
+        timestamp: new Date(),
+      }, { status: 429 });
+    }
+
+    let draft: string;
+    try {
+      draft = await generateDraft(assistantConfig, roundConfig, body.hint?.trim() || undefined);
+    } catch (error) {
+      console.error('Assistant draft failed:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: error instanceof Error ? error.message : 'Assistant endpoint failed',
+        timestamp: new Date(),
+      }, { status: 502 });
+    }
+
+    gameManager.recordAssistantDraft(playerId, body.roundNumber, draft);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { draft, roundNumber: body.roundNumber },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error('Error generating assistant draft:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -1,35 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
+import { authenticatePlayer } from '@/lib/player-auth';
 import { ApiResponse } from '@/types/game';
 
-function getCookie(request: NextRequest, name: string): string | null {
-  const cookie = request.cookies.get(name);
-  return cookie ? cookie.value : null;
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const playerId = getCookie(request, 'player_id');
-    console.log('Cheater alert - Player ID from cookie:', playerId);
-    
-    if (!playerId) {
-      console.log('No player ID in cookie');
-      return NextResponse.json<ApiResponse>({
-        success: false,
-        error: 'Not authenticated',
-        timestamp: new Date(),
-      }, { status: 401 });
+    const auth = authenticatePlayer(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
-    const gameManager = getGameManager();
+    const { playerId, gameManager } = auth;
     const player = gameManager.getPlayer(playerId);
-    console.log('Player found:', player ? player.name : 'None');
-    
     if (!player) {
-      const gameState = gameManager.getGameState();
-      console.log('Available players:', gameState.players.map(p => p.id));
-      console.log('Admin player:', gameState.adminPlayer?.id);
-      
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Player not found',
@@ -49,7 +31,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Log the cheating attempt
-    console.log(`🚨 CHEATER DETECTED: Player ${player.name} (${player.id}) opened ${type}`);
+    console.log(`🚨 CHEATER DETECTED: Player ${player.name} opened ${type}`);
 
     return NextResponse.json<ApiResponse>({
       success: true,
@@ -1,15 +1,39 @@
-import { NextRequest } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
-import { GameEvent } from '@/types/game';
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlayer } from '@/lib/player-auth';
+import { findGameManager, GameManager } from '@/lib/game-manager';
+import { getRoomIdFromRequest } from '@/lib/rooms';
+import { ApiResponse, GameEvent } from '@/types/game';
 import { CompressionUtils } from '@/lib/compression-utils';
+import { canReceiveEvent, toScreenEventData } from '@/lib/event-audience';
 
 export async function GET(request: NextRequest) {
   try {
-    const gameManager = getGameManager();
+    // The presenter screen (?screen=1) watches a room without joining it, so it needs no player cookie and gets screen-safe events only
+    const isScreen = request.nextUrl.searchParams.get('screen') === '1';
+    let playerId = '';
+    let gameManager: GameManager;
+
+    if (isScreen) {
+      gameManager = findGameManager(getRoomIdFromRequest(request));
+      if (!gameManager) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Room not found',
+          timestamp: new Date(),
+        }, { status: 404 });
+      }
+    } else {
+      const auth = authenticatePlayer(request);
+      if (auth instanceof NextResponse) {
+        return auth;
+      }
+      ({ playerId, gameManager } = auth);
+    }
+
     const startTime = Date.now();
     let connectionId = `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
-    console.log(`SSE connection established: ${connectionId}`);
+    console.log(`SSE connection established: ${connectionId}${isScreen ? ' (presenter screen)' : ''}`);
     
     // Create a readable stream for Server-Sent Events
     const stream = new ReadableStream({
@@ -47,20 +71,34 @@ export async function GET(request: NextRequest) {
           }
         };
 
-        // Send initial game state
+        // Send initial game state, spectators arriving mid-game also need what has been revealed so far
+        const isSpectator = isScreen || gameManager.isSpectator(playerId);
         try {
           sendEvent('game_state', {
-            gameState: gameManager.getPublicGameState(),
+            ...(isScreen
+              ? { ...gameManager.getScreenView(), playerRole: null, isSpectator: true }
+              : isSpectator
+                ? { ...gameManager.getSpectatorView(), playerRole: null, isSpectator: true }
+                : { gameState: gameManager.getPublicGameState() }),
             timestamp: new Date().toISOString(),
           });
         } catch (error) {
           console.error('Error sending initial game state:', error);
         }
 
-      // Listen for game events
+      // Listen for game events, private ones only reach their audience
       const eventListener = (gameEvent: GameEvent) => {
+        const viewer = {
+          playerId,
+          isHost: gameManager.isAdmin(playerId),
+        };
+        if (!canReceiveEvent(gameEvent, viewer)) return;
+
+        const data = isScreen ? toScreenEventData(gameEvent) : gameEvent.data;
+        if (!data) return;
+
         sendEvent(gameEvent.type, {
-          ...gameEvent.data,
+          ...data,
           timestamp: gameEvent.timestamp.toISOString(),
         });
       };
@@ -1,46 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
+import { authenticatePlayer } from '@/lib/player-auth';
+import { requireHost } from '@/lib/host-auth';
 import { ApiResponse } from '@/types/game';
 import { CompressionUtils } from '@/lib/compression-utils';
+import { isEliminationPhase } from '@/lib/game-config';
+import { stripTypingData } from '@/lib/typing-telemetry';
 
 export async function GET(request: NextRequest) {
   try {
-    const gameManager = getGameManager();
-    const playerId = request.cookies.get('player_id')?.value;
+    const auth = authenticatePlayer(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const { playerId, gameManager } = auth;
+
+    // Spectators get the same view as their event stream, no role and nothing secret
+    if (gameManager.isSpectator(playerId)) {
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: {
+          ...gameManager.getSpectatorView(),
+          playerRole: null,
+          isSpectator: true,
+        },
+        timestamp: new Date(),
+      });
+    }
     
     // Get public game state
     const publicGameState = gameManager.getPublicGameState();
     
     let playerRole = null;
-    if (playerId) {
-      // Attempt to get or restore player from session
-      const player = gameManager.attemptPlayerRestore(playerId);
-      
-      if (player) {
-        // Use actual role from player object for presentation
-        playerRole = player.role;
-        console.log('GAME STATE API: Found/restored player with role:', playerRole, 'for player', player.name);
-      } else {
-        console.log('GAME STATE API: Player not found and could not be restored, using random role');
-        const roles = ['human', 'ai_user', 'troll'];
-        playerRole = roles[Math.floor(Math.random() * roles.length)];
-        console.log('RANDOM ROLE NO PLAYER:', playerRole);
-      }
+    // Attempt to get or restore player from session
+    const player = gameManager.attemptPlayerRestore(playerId);
+    
+    if (player) {
+      // Use actual role from player object for presentation
+      playerRole = player.role;
+      console.log('GAME STATE API: Found/restored player with role:', playerRole, 'for player', player.name);
     } else {
-      console.log('GAME STATE API: No player ID in cookie');
+      console.log('GAME STATE API: Player not found and could not be restored, using random role');
       const roles = ['human', 'ai_user', 'troll'];
       playerRole = roles[Math.floor(Math.random() * roles.length)];
-      console.log('RANDOM ROLE NO COOKIE:', playerRole);
+      console.log('RANDOM ROLE NO PLAYER:', playerRole);
     }
 
     // Get additional data based on current phase
     let additionalData = {};
     const gameState = gameManager.getGameState();
     
-    if (gameState.currentPhase === 'voting' || gameState.currentPhase === 'results') {
-      // Show submissions from all rounds
+    if (gameState.currentPhase === 'voting' && gameState.anonymousVoting) {
+      // Anonymous board only, the player learns nothing but their own pseudonym
       additionalData = {
-        submissions: gameManager.getAllSubmissions(),
+        anonymousBoard: gameManager.getVotingBoard(),
+        pseudonym: gameManager.getPseudonym(playerId),
+      };
+    } else if (gameState.currentPhase === 'voting' || gameState.currentPhase === 'results' || isEliminationPhase(gameState.currentPhase)) {
+      // Show submissions from all rounds, how they were typed only comes out as the host reveals each author
+      additionalData = {
+        submissions: gameState.currentPhase === 'results' ? gameManager.getRevealedSubmissions() : stripTypingData(gameManager.getAllSubmissions()),
       };
     }
     
@@ -48,7 +67,7 @@ export async function GET(request: NextRequest) {
       // Show voting results
       additionalData = {
         ...additionalData,
-        results: gameManager.calculateResults(),
+        results: gameManager.getRevealedResults(),
       };
     }
 
@@ -56,6 +75,8 @@ export async function GET(request: NextRequest) {
       gameState: publicGameState,
       playerRole: playerRole,
       ...additionalData,
+      // Only the host is told which players are bots
+      ...(gameManager.isAdmin(playerId) && { botPlayerIds: gameManager.getBotPlayerIds() }),
     };
 
     // Get connection quality from headers for adaptive compression
@@ -88,13 +109,18 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST endpoint for admin actions (start game manually, reset, etc.)
+// POST endpoint for admin actions (start game manually, reset, etc.), host only like /api/admin
 export async function POST(request: NextRequest) {
   try {
+    const auth = requireHost(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const { gameManager } = auth;
     const body = await request.json();
     const { action } = body;
     
-    const gameManager = getGameManager();
     
     switch (action) {
       case 'start':
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setHostCookie } from '@/lib/host-auth';
+import { authenticatePlayer } from '@/lib/player-auth';
+import { ApiResponse } from '@/types/game';
+
+// Claim the host token after host rights were handed to this player
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticatePlayer(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const { playerId, roomId, gameManager } = auth;
+    if (!gameManager.isAdmin(playerId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only the current host can claim the host token',
+        timestamp: new Date(),
+      }, { status: 403 });
+    }
+
+    const response = NextResponse.json<ApiResponse>({
+      success: true,
+      data: { roomId, playerId },
+      timestamp: new Date(),
+    });
+    setHostCookie(response, roomId, playerId);
+    return response;
+  } catch (error) {
+    console.error('Error claiming host token:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
+import { getGameManager, findGameManager } from '@/lib/game-manager';
 import { JoinGameRequest, ApiResponse } from '@/types/game';
+import { DEFAULT_ROOM_ID, normalizeRoomId } from '@/lib/rooms';
+import { parsePlayerToken, setPlayerCookies } from '@/lib/player-auth';
+import { PLAYER_COOKIE_NAME } from '@/lib/player-cookie';
+import { setHostCookie } from '@/lib/host-auth';
+import { GAME_CONFIG } from '@/lib/game-config';
 
 export async function POST(request: NextRequest) {
   console.log('JOIN API: Request received');
-  console.log('JOIN API: Headers:', Object.fromEntries(request.headers.entries()));
   console.log('JOIN API: URL:', request.url);
   console.log('JOIN API: Method:', request.method);
   
@@ -17,8 +21,6 @@ export async function POST(request: NextRequest) {
     const body: JoinGameRequest = await request.json();
     clearTimeout(timeoutId);
     
-    console.log('JOIN API: Body parsed successfully:', body);
-    
     if (!body.name || body.name.trim().length === 0) {
       return NextResponse.json<ApiResponse>({
         success: false,
@@ -35,15 +37,68 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Check if this is admin join (specific name)
-    const isAdmin = body.name.toLowerCase() === 'furk12';
-    
-    // Check for existing player ID in cookies
-    const existingPlayerId = request.cookies.get('player_id')?.value;
+    const roomId = body.roomId ? normalizeRoomId(body.roomId) : DEFAULT_ROOM_ID;
+    if (!roomId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid room code',
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
 
-    const gameManager = getGameManager();
+    // Only the default room exists implicitly, other rooms have to be created first
+    if (roomId !== DEFAULT_ROOM_ID && !findGameManager(roomId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Room not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    // Check for an existing signed player ID for this room in cookies
+    const existingIdentity = parsePlayerToken(request.cookies.get(PLAYER_COOKIE_NAME)?.value);
+    const existingPlayerId = existingIdentity?.roomId === roomId ? existingIdentity.playerId : undefined;
+
+    const gameManager = getGameManager(roomId);
+
+    // The default room has no creator, so the first player into its empty lobby becomes the host
+    const isAdmin = roomId === DEFAULT_ROOM_ID && !gameManager.getGameState().adminPlayer;
     const player = gameManager.addPlayer(body.name.trim(), isAdmin, existingPlayerId);
 
+    // Once the game is running, newcomers watch as spectators instead of being turned away
+    const isPlayerInGame = !!existingPlayerId && !!gameManager.getPlayer(existingPlayerId);
+    if (!player && gameManager.getGameState().currentPhase !== 'lobby' && !isPlayerInGame) {
+      const spectator = gameManager.addSpectator(body.name.trim(), existingPlayerId);
+      if (!spectator) {
+        const { spectators } = gameManager.getGameState();
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: spectators.length >= GAME_CONFIG.MAX_SPECTATORS ? 'Too many spectators' : 'Name is already taken',
+          timestamp: new Date(),
+        }, { status: 409 });
+      }
+
+      const response = NextResponse.json<ApiResponse>({
+        success: true,
+        data: {
+          player: {
+            id: spectator.id,
+            name: spectator.name,
+            joinedAt: spectator.joinedAt,
+            isAdmin: false,
+          },
+          roomId,
+          gameState: gameManager.getPublicGameState(),
+          playerRole: null,
+          isSpectator: true,
+        },
+        timestamp: new Date(),
+      });
+      setPlayerCookies(response, spectator.id, roomId);
+      console.log('JOIN API: Joined as spectator:', spectator.name);
+      return response;
+    }
+
     if (!player) {
       const gameState = gameManager.getGameState();
       let errorMessage = 'Failed to join game';
@@ -63,7 +118,6 @@ export async function POST(request: NextRequest) {
       }, { status: 409 });
     }
 
-    // Store player ID in a cookie for session management
     const responseData = {
       success: true,
       data: {
@@ -73,6 +127,7 @@ export async function POST(request: NextRequest) {
           joinedAt: player.joinedAt,
           isAdmin: player.isAdmin,
         },
+        roomId,
         gameState: gameManager.getPublicGameState(),
         playerRole: player.role,
       },
@@ -80,18 +135,14 @@ export async function POST(request: NextRequest) {
     };
     
     console.log('JOIN API: About to send response:', JSON.stringify(responseData).length + ' bytes');
-    console.log('JOIN API: Response data preview:', JSON.stringify(responseData).substring(0, 200) + '...');
     
     const response = NextResponse.json<ApiResponse>(responseData);
 
-    response.cookies.set('player_id', player.id, {
-      httpOnly: false, // Allow client-side access
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax', // Changed from strict to lax for better compatibility
-      maxAge: 30 * 24 * 60 * 60, // 30 days for persistent sessions
-      path: '/', // Explicitly set path
-      domain: process.env.NODE_ENV === 'production' ? undefined : 'localhost', // Let browser handle domain in production
-    });
+    // Store player and room IDs in cookies for session management
+    setPlayerCookies(response, player.id, roomId);
+    if (player.isAdmin) {
+      setHostCookie(response, roomId, player.id);
+    }
 
     console.log('JOIN API: Response created successfully, sending...');
     return response;
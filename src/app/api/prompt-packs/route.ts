@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listPromptPacks } from '@/lib/prompt-pack-loader';
+import { ApiResponse } from '@/types/game';
+
+// List the prompt packs a host can pick in the lobby
+export async function GET() {
+  try {
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { packs: listPromptPacks() },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error('Error listing prompt packs:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to load prompt packs',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGameManager, findGameManager, destroyGameManager } from '@/lib/game-manager';
+import { generateRoomCode } from '@/lib/rooms';
+import { GAME_CONFIG } from '@/lib/game-config';
+import SessionManager from '@/lib/session-manager';
+import { setPlayerCookies } from '@/lib/player-auth';
+import { setHostCookie } from '@/lib/host-auth';
+import { ApiResponse, JoinGameRequest } from '@/types/game';
+
+// Create a new room and join its creator as the host
+export async function POST(request: NextRequest) {
+  try {
+    const body: JoinGameRequest = await request.json();
+
+    if (!body.name || body.name.trim().length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Name is required',
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    if (body.name.trim().length > 20) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Name must be 20 characters or less',
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    if (SessionManager.getInstance().getRoomCount() >= GAME_CONFIG.MAX_ROOMS) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Too many open rooms, try again later',
+        timestamp: new Date(),
+      }, { status: 503 });
+    }
+
+    const roomId = generateRoomCode(code => findGameManager(code) !== null);
+    const gameManager = getGameManager(roomId);
+    const player = gameManager.addPlayer(body.name.trim(), true);
+
+    if (!player) {
+      destroyGameManager(roomId);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to create room',
+        timestamp: new Date(),
+      }, { status: 500 });
+    }
+
+    console.log(`ROOMS API: Created room ${roomId} for host ${player.name}`);
+
+    const response = NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        player: {
+          id: player.id,
+          name: player.name,
+          joinedAt: player.joinedAt,
+          isAdmin: player.isAdmin,
+        },
+        roomId,
+        gameState: gameManager.getPublicGameState(),
+        playerRole: player.role,
+      },
+      timestamp: new Date(),
+    });
+
+    setPlayerCookies(response, player.id, roomId);
+    setHostCookie(response, roomId, player.id);
+    return response;
+  } catch (error) {
+    console.error('ROOMS API: Error creating room:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
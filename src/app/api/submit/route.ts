@@ -1,26 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
+import { authenticatePlayer } from '@/lib/player-auth';
 import { SubmissionRequest, ApiResponse } from '@/types/game';
-import { ROUND_CONFIGS } from '@/lib/game-config';
+import { getRoundConfig, getRoundPhase } from '@/lib/game-config';
+import { sanitizeTelemetry } from '@/lib/typing-telemetry';
+import { fitsReplayBudget, sanitizeReplay } from '@/lib/typing-replay';
+import { CompressionUtils } from '@/lib/compression-utils';
 
 export async function POST(request: NextRequest) {
   console.log('SUBMIT API: Request received');
-  console.log('SUBMIT API: Headers:', Object.fromEntries(request.headers.entries()));
   console.log('SUBMIT API: URL:', request.url);
   
   try {
-    const playerId = request.cookies.get('player_id')?.value;
-    console.log('SUBMIT API: Player ID from cookie:', playerId);
-    
-    if (!playerId) {
-      console.log('SUBMIT API: No player ID found in cookies');
-      return NextResponse.json<ApiResponse>({
-        success: false,
-        error: 'Player not found. Please rejoin the game.',
-        timestamp: new Date(),
-      }, { status: 401 });
+    const auth = authenticatePlayer(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
+    const { playerId, gameManager } = auth;
+    console.log('SUBMIT API: Player ID from cookie:', playerId);
+
     // Add timeout for parsing request body
     const timeoutId = setTimeout(() => {
       throw new Error('Request parsing timeout');
@@ -39,8 +37,9 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Validate round number
-    if (body.roundNumber < 1 || body.roundNumber > 8) {
+    // Validate round number against the rounds of the selected prompt pack
+    const roundConfig = getRoundConfig(body.roundNumber, gameManager.getGameState().roundConfigs);
+    if (!roundConfig) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Invalid round number',
@@ -49,17 +48,32 @@ export async function POST(request: NextRequest) {
     }
 
     // Check content length
-    const roundConfig = ROUND_CONFIGS.find(r => r.roundNumber === body.roundNumber);
-    if (roundConfig && body.content.trim().length > roundConfig.maxLength) {
+    if (body.content.trim().length > roundConfig.maxLength) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: `Submission too long. Maximum ${roundConfig.maxLength} characters allowed.`,
         timestamp: new Date(),
       }, { status: 400 });
     }
-
-    const gameManager = getGameManager();
     
+    // Spectators joined after the start and only watch
+    if (gameManager.isSpectator(playerId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Spectators cannot submit answers',
+        timestamp: new Date(),
+      }, { status: 403 });
+    }
+
+    // Inputs stay locked until the host resumes
+    if (gameManager.isPaused()) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'The game is paused',
+        timestamp: new Date(),
+      }, { status: 409 });
+    }
+
     // Check if player exists
     const player = gameManager.getPlayer(playerId);
     console.log('Submit - Player ID:', playerId);
@@ -89,7 +103,16 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('SUBMIT API: Attempting to add submission...');
-    const success = gameManager.addSubmission(playerId, body.roundNumber, body.content.trim());
+    // Telemetry is optional, offline submissions synced later arrive without it
+    const telemetry = sanitizeTelemetry(body.telemetry);
+    // Same for the replay, which is also dropped when it doesn't end on the answer or is over budget
+    const replayEdits = sanitizeReplay(body.replay, body.content.trim(), roundConfig.maxLength);
+    const packedReplay = replayEdits ? CompressionUtils.compressReplay(replayEdits) : undefined;
+    const replay = packedReplay && fitsReplayBudget(packedReplay) ? packedReplay : undefined;
+    if (packedReplay && !replay) {
+      console.log(`SUBMIT API: Replay with ${packedReplay.edits.length} edits is over budget, dropping it`);
+    }
+    const success = gameManager.addSubmission(playerId, body.roundNumber, body.content.trim(), telemetry || undefined, replay);
     console.log('SUBMIT API: Add submission result:', success);
     
     if (!success) {
@@ -97,12 +120,13 @@ export async function POST(request: NextRequest) {
       let errorMessage = 'Failed to submit';
       
       console.log('Submission failed - Current phase:', gameState.currentPhase);
-      console.log('Submission failed - Expected phase:', `round${body.roundNumber}`);
+      console.log('Submission failed - Expected phase:', getRoundPhase(body.roundNumber));
       console.log('Submission failed - Round number:', body.roundNumber);
       
-      const expectedPhase = `round${body.roundNumber}` as const;
-      if (gameState.currentPhase !== expectedPhase) {
+      if (gameState.currentPhase !== getRoundPhase(body.roundNumber)) {
         errorMessage = `Not currently in round ${body.roundNumber}`;
+      } else if (player.eliminatedInRound) {
+        errorMessage = 'You have been eliminated and can only watch';
       } else {
         // Check if already submitted
         const submissions = gameManager.getSubmissions(body.roundNumber);
@@ -1,29 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGameManager } from '@/lib/game-manager';
+import { authenticatePlayer } from '@/lib/player-auth';
 import { VoteRequest, ApiResponse, PlayerRole } from '@/types/game';
+import { isEliminationPhase, isValidVoteConfidence, VOTE_CONFIDENCE } from '@/lib/game-config';
 
 export async function POST(request: NextRequest) {
   try {
-    const playerId = request.cookies.get('player_id')?.value;
-    if (!playerId) {
-      return NextResponse.json<ApiResponse>({
-        success: false,
-        error: 'Player not found. Please rejoin the game.',
-        timestamp: new Date(),
-      }, { status: 401 });
+    const auth = authenticatePlayer(request);
+    if (auth instanceof NextResponse) {
+      return auth;
     }
 
+    const { playerId, gameManager } = auth;
+
     const body: VoteRequest = await request.json();
     
     // Validate request body
-    if (!body.targetPlayerId || !body.predictedRole) {
+    if ((!body.targetPlayerId && !body.targetPseudonym) || !body.predictedRole) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Missing required fields: targetPlayerId and predictedRole',
+        error: 'Missing required fields: targetPlayerId (or targetPseudonym) and predictedRole',
         timestamp: new Date(),
       }, { status: 400 });
     }
 
+    // Anonymous boards vote on pseudonyms, the real target is looked up on the server
+    const targetPlayerId = body.targetPseudonym ? gameManager.resolvePseudonym(body.targetPseudonym) : body.targetPlayerId;
+
     // Validate predicted role
     const validRoles: PlayerRole[] = ['human', 'ai_user', 'troll'];
     if (!validRoles.includes(body.predictedRole)) {
@@ -33,9 +35,34 @@ export async function POST(request: NextRequest) {
         timestamp: new Date(),
       }, { status: 400 });
     }
-
-    const gameManager = getGameManager();
     
+    // Confidence is optional, votes without one count as a coin flip
+    if (body.confidence !== undefined && !isValidVoteConfidence(body.confidence)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Invalid confidence. Must be a number from ${VOTE_CONFIDENCE.MIN} to ${VOTE_CONFIDENCE.MAX}.`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+    
+    // Spectators joined after the start and only watch
+    if (gameManager.isSpectator(playerId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Spectators cannot vote',
+        timestamp: new Date(),
+      }, { status: 403 });
+    }
+
+    // Inputs stay locked until the host resumes
+    if (gameManager.isPaused()) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'The game is paused',
+        timestamp: new Date(),
+      }, { status: 409 });
+    }
+
     // Check if voter exists
     const voter = gameManager.getPlayer(playerId);
     if (!voter) {
@@ -52,7 +79,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if target player exists
-    const targetPlayer = gameManager.getPlayer(body.targetPlayerId);
+    const targetPlayer = targetPlayerId ? gameManager.getPlayer(targetPlayerId) : null;
     if (!targetPlayer) {
       return NextResponse.json<ApiResponse>({
         success: false,
@@ -62,7 +89,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Prevent self-voting
-    if (playerId === body.targetPlayerId) {
+    if (playerId === targetPlayerId) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'You cannot vote for yourself.',
@@ -70,9 +97,9 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Check if game is in voting phase
+    // Check if game is in voting phase (or an elimination vote)
     const gameState = gameManager.getGameState();
-    if (gameState.currentPhase !== 'voting') {
+    if (gameState.currentPhase !== 'voting' && !isEliminationPhase(gameState.currentPhase)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: `Voting is not allowed during ${gameState.currentPhase} phase.`,
@@ -80,7 +107,15 @@ export async function POST(request: NextRequest) {
       }, { status: 409 });
     }
 
-    const success = gameManager.addVote(playerId, body.targetPlayerId, body.predictedRole);
+    if (voter.eliminatedInRound || targetPlayer.eliminatedInRound) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: voter.eliminatedInRound ? 'Eliminated players cannot vote.' : 'That player has already been eliminated.',
+        timestamp: new Date(),
+      }, { status: 409 });
+    }
+
+    const success = gameManager.addVote(playerId, targetPlayerId, body.predictedRole, body.confidence);
     
     if (!success) {
       return NextResponse.json<ApiResponse>({
@@ -94,8 +129,9 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         message: 'Vote submitted successfully',
-        targetPlayer: targetPlayer.name,
+        targetPlayer: body.targetPseudonym || targetPlayer.name, // never echo the real name behind a pseudonym
         predictedRole: body.predictedRole,
+        confidence: body.confidence ?? VOTE_CONFIDENCE.MIN,
       },
       timestamp: new Date(),
     });
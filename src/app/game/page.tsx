@@ -4,6 +4,7 @@ import { useGameEvents } from '@/hooks/useGameEvents';
 import LobbyComponent from '@/components/LobbyComponent';
 import RoundComponent from '@/components/RoundComponent';
 import VotingComponent from '@/components/VotingComponent';
+import EliminationVoteComponent from '@/components/EliminationVoteComponent';
 import ResultsComponent from '@/components/ResultsComponent';
 import AdminControls from '@/components/AdminControls';
 import NetworkMonitor from '@/components/NetworkMonitor';
@@ -11,18 +12,8 @@ import AntiCheat from '@/lib/anti-cheat';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
-
-function getCookie(name: string): string | null {
-  if (typeof document === 'undefined') return null;
-  
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) {
-    const cookieValue = parts.pop()?.split(';').shift();
-    return cookieValue || null;
-  }
-  return null;
-}
+import { getCurrentPlayerId } from '@/lib/player-cookie';
+import { ROUND_CONFIGS, getRoundNumberFromPhase, getRoundNumberFromEliminationPhase } from '@/lib/game-config';
 
 export default function GamePage() {
   const { 
@@ -115,7 +106,7 @@ export default function GamePage() {
     if (!mounted || !gameData || playerId) return;
     
     // Try cookie first
-    let id = getCookie('player_id');
+    let id = getCurrentPlayerId();
     console.log('Cookie check:', { cookies: document.cookie, playerId: id });
     
     if (!id) {
@@ -287,6 +278,50 @@ export default function GamePage() {
   // Render appropriate component based on game phase
   const renderGamePhase = () => {
     const { currentPhase } = gameData.gameState;
+
+    const currentPlayer = [...gameData.gameState.players, gameData.gameState.adminPlayer].find(p => p?.id === playerId);
+    const isEliminated = !!currentPlayer?.eliminatedInRound;
+    const isSpectator = !!gameData.isSpectator;
+    const isPaused = !!gameData.gameState.pause;
+    // No timer updates arrive while paused, the clock stays frozen where the pause caught it
+    const { pause } = gameData.gameState;
+    const timeLeft = pause && pause.remainingMs !== null ? Math.floor(pause.remainingMs / 1000) : gameData.timeLeft || 0;
+    const isEveryoneIn = !!gameData.everyoneIn;
+
+    // Round phases (round1..roundN) all share one renderer, N depends on the prompt pack
+    const roundNumber = getRoundNumberFromPhase(currentPhase);
+    if (roundNumber !== null) {
+      return (
+        <RoundComponent
+          roundNumber={roundNumber}
+          roundConfigs={gameData.gameState.roundConfigs || ROUND_CONFIGS}
+          timeLeft={timeLeft}
+          playerId={playerId}
+          isEliminated={isEliminated}
+          isSpectator={isSpectator}
+          showAssistant={gameData.playerRole === 'ai_user' && !!gameData.gameState.assistantEnabled}
+          isPaused={isPaused}
+          isEveryoneIn={isEveryoneIn}
+        />
+      );
+    }
+
+    // Elimination mode votes between rounds (elimination1..eliminationN)
+    const eliminationRound = getRoundNumberFromEliminationPhase(currentPhase);
+    if (eliminationRound !== null) {
+      return (
+        <EliminationVoteComponent
+          gameState={gameData.gameState}
+          submissions={gameData.submissions || {}}
+          roundNumber={eliminationRound}
+          timeLeft={timeLeft}
+          playerId={playerId}
+          isSpectator={isSpectator}
+          isPaused={isPaused}
+          isEveryoneIn={isEveryoneIn}
+        />
+      );
+    }
     
     switch (currentPhase) {
       case 'lobby':
@@ -294,6 +329,7 @@ export default function GamePage() {
           <LobbyComponent 
             gameState={gameData.gameState}
             playerId={playerId}
+            botPlayerIds={gameData.botPlayerIds}
           />
         );
         
@@ -306,24 +342,8 @@ export default function GamePage() {
         return (
           <RoleRevealComponent
             playerRole={gameData.playerRole}
-            timeLeft={gameData.timeLeft || 0}
-          />
-        );
-        
-      case 'round1':
-      case 'round2':
-      case 'round3':
-      case 'round4':
-      case 'round5':
-      case 'round6':
-      case 'round7':
-      case 'round8':
-        const roundNumber = parseInt(currentPhase.replace('round', ''));
-        return (
-          <RoundComponent
-            roundNumber={roundNumber}
-            timeLeft={gameData.timeLeft || 0}
-            playerId={playerId}
+            timeLeft={timeLeft}
+            isSpectator={isSpectator}
           />
         );
         
@@ -332,8 +352,13 @@ export default function GamePage() {
           <VotingComponent
             gameState={gameData.gameState}
             submissions={gameData.submissions || {}}
-            timeLeft={gameData.timeLeft || 0}
+            anonymousBoard={gameData.gameState.anonymousVoting ? gameData.anonymousBoard : undefined}
+            pseudonym={gameData.pseudonym}
+            timeLeft={timeLeft}
             playerId={playerId}
+            isSpectator={isSpectator}
+            isPaused={isPaused}
+            isEveryoneIn={isEveryoneIn}
           />
         );
         
@@ -344,6 +369,7 @@ export default function GamePage() {
             results={gameData.results}
             gameState={gameData.gameState}
             submissions={gameData.submissions || {}}
+            isAdmin={isAdmin}
           />
         );
         
@@ -367,6 +393,8 @@ export default function GamePage() {
         <AdminControls 
           isAdmin={isAdmin} 
           gamePhase={gameData.gameState.currentPhase} 
+          isPaused={!!gameData.gameState.pause}
+          roundConfigs={gameData.gameState.roundConfigs || ROUND_CONFIGS}
         />
       )}
       {/* Network Monitor - shows detailed connection health */}
@@ -0,0 +1,14 @@
+import { redirect } from 'next/navigation';
+import { normalizeRoomId } from '@/lib/rooms';
+
+interface JoinRoomPageProps {
+  params: Promise<{ code: string }>;
+}
+
+// Deep link for sharing a room: /join/KQX4 opens the home page with the code filled in
+export default async function JoinRoomPage({ params }: JoinRoomPageProps) {
+  const { code } = await params;
+  const roomId = normalizeRoomId(code);
+
+  redirect(roomId ? `/?room=${encodeURIComponent(roomId)}` : '/');
+}
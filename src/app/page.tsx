@@ -1,19 +1,41 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 
 export default function Home() {
   const [name, setName] = useState('');
+  const [roomCode, setRoomCode] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
 
+  // Prefill the room code from a /join/<code> deep link (redirected here as ?room=<code>)
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      const room = new URLSearchParams(window.location.search).get('room');
+      if (room) {
+        setRoomCode(room.toUpperCase());
+      }
+    }
+  }, []);
+
   const handleJoinGame = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) return;
 
+    const code = roomCode.trim();
+    await enterGame('/api/join', code ? { name: name.trim(), roomId: code } : { name: name.trim() });
+  };
+
+  const handleCreateRoom = async () => {
+    if (!name.trim()) return;
+
+    await enterGame('/api/rooms', { name: name.trim() });
+  };
+
+  const enterGame = async (endpoint: string, payload: Record<string, string>) => {
     setIsJoining(true);
     setError(null);
 
@@ -22,12 +44,12 @@ export default function Home() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
       
-      const response = await fetch('/api/join', {
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ name: name.trim() }),
+        body: JSON.stringify(payload),
         signal: controller.signal
       });
       
@@ -37,7 +59,13 @@ export default function Home() {
       if (!response.ok) {
         const errorText = await response.text();
         console.error('Server error response:', errorText);
-        throw new Error(`Server error: ${response.status} ${response.statusText}`);
+        let serverError: string | undefined;
+        try {
+          serverError = JSON.parse(errorText).error;
+        } catch {
+          // Not a JSON error body, fall back to the status text
+        }
+        throw new Error(serverError || `Server error: ${response.status} ${response.statusText}`);
       }
 
       let result;
@@ -168,6 +196,26 @@ export default function Home() {
                   </p>
                 </div>
 
+                <div>
+                  <label htmlFor="roomCode" className="block text-lg font-medium neon-text-green mb-2" style={{fontFamily: 'Press Start 2P, monospace', fontSize: '14px'}}>
+                    ODA KODU
+                  </label>
+                  <input
+                    type="text"
+                    id="roomCode"
+                    value={roomCode}
+                    onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                    placeholder="KQX4"
+                    maxLength={12}
+                    className="w-full px-4 py-3 bg-black/80 border-2 border-cyan-400 neon-text-cyan focus:outline-none focus:border-pink-400 focus:shadow-[0_0_15px_rgba(0,255,255,0.5)] text-lg font-mono tracking-widest uppercase"
+                    style={{fontFamily: 'Orbitron, monospace'}}
+                    disabled={isJoining}
+                  />
+                  <p className="text-sm text-gray-400 mt-1">
+                    Boş bırakırsan ana oyuna katılırsın
+                  </p>
+                </div>
+
                 {error && (
                   <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-3">
                     <p className="text-red-300 text-sm">{error}</p>
@@ -185,9 +233,19 @@ export default function Home() {
                       BAĞLANILIYOR...
                     </span>
                   ) : (
-                    'BAŞLAT'
+                    roomCode.trim() ? 'ODAYA KATIL' : 'BAŞLAT'
                   )}
                 </button>
+
+                <button
+                  type="button"
+                  onClick={handleCreateRoom}
+                  disabled={!name.trim() || isJoining}
+                  className="w-full px-4 py-3 bg-black/60 border-2 border-pink-400 neon-text-pink hover:bg-pink-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{fontFamily: 'Press Start 2P, monospace', fontSize: '12px'}}
+                >
+                  + YENİ ODA OLUŞTUR
+                </button>
               </form>
             </div>
           </div>
@@ -4,13 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import RoleRevealComponent from '@/components/RoleRevealComponent';
 import { useGameEvents } from '@/hooks/useGameEvents';
-function getCookie(name: string): string | null {
-  if (typeof document === 'undefined') return null;
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) return parts.pop()?.split(';').shift() || null;
-  return null;
-}
+import { getCurrentPlayerId } from '@/lib/player-cookie';
 
 export default function RoleRevealPage() {
   const router = useRouter();
@@ -18,7 +12,7 @@ export default function RoleRevealPage() {
   const [playerRole, setPlayerRole] = useState(null);
 
   useEffect(() => {
-    const playerId = getCookie('player_id');
+    const playerId = getCurrentPlayerId();
     if (!playerId) {
       // No player session, redirect to lobby
       router.push('/');
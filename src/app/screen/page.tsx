@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { useScreenEvents } from '@/hooks/useScreenEvents';
+import ScreenResultsReveal from '@/components/ScreenResultsReveal';
+import { getRoundConfigByPhase, getRoundNumberFromPhase, getRoundNumberFromEliminationPhase } from '@/lib/game-config';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+
+// Read-only presenter view for projecting a room on a shared screen: /screen?room=KQX4
+export default function ScreenPage() {
+  const { screenData, isConnected, error } = useScreenEvents();
+  const [now, setNow] = useState(Date.now());
+  const [joinUrl, setJoinUrl] = useState('');
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+
+  // The countdown ticks locally from phaseEndTime, timer updates keep it in sync
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const roomId = screenData?.gameState.roomId;
+
+  // Show the room's join link as a QR code while the lobby fills up
+  useEffect(() => {
+    if (!roomId) return;
+    const origin = window.location.origin;
+    const url = roomId !== DEFAULT_ROOM_ID ? `${origin}/join/${roomId}` : origin;
+    setJoinUrl(url);
+
+    let cancelled = false;
+    QRCode.toDataURL(url, { width: 320, margin: 1 })
+      .then(dataUrl => {
+        if (!cancelled) setQrCodeUrl(dataUrl);
+      })
+      .catch(error => {
+        console.error('Failed to generate QR code:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  if (!screenData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-8">
+        <div className="text-center">
+          {!error && <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-white mx-auto mb-6"></div>}
+          <p className="text-white text-3xl">{error || 'Connecting to the game...'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { gameState, submissionCount, voteCount, results } = screenData;
+  const phase = gameState.currentPhase;
+  const roundNumber = getRoundNumberFromPhase(phase);
+  const eliminationRound = getRoundNumberFromEliminationPhase(phase);
+  const roundConfig = getRoundConfigByPhase(phase, gameState.roundConfigs);
+
+  // Everyone still in the game owes an answer, the host included
+  const participants = gameState.adminPlayer ? [...gameState.players, gameState.adminPlayer] : gameState.players;
+  const activeCount = participants.filter(p => !p.eliminatedInRound).length;
+
+  // A paused clock shows what was left when the host paused
+  const timeLeft = gameState.pause
+    ? (gameState.pause.remainingMs !== null ? Math.floor(gameState.pause.remainingMs / 1000) : null)
+    : gameState.phaseEndTime
+      ? Math.max(0, Math.floor((new Date(gameState.phaseEndTime).getTime() - now) / 1000))
+      : null;
+
+  const phaseLabel = roundNumber !== null
+    ? `Round ${roundNumber} of ${gameState.roundConfigs.length}`
+    : eliminationRound !== null
+      ? `Elimination vote · round ${eliminationRound}`
+      : {
+          lobby: 'Waiting for players',
+          role_reveal: 'Roles are being dealt',
+          voting: 'Voting',
+          results: 'Results',
+          finished: 'Game over',
+        }[phase] || phase;
+
+  const renderProgress = (done: number, total: number, label: string) => (
+    <div className="w-full max-w-3xl mx-auto">
+      <div className="text-5xl font-bold text-white text-center mb-4">{done}/{total} {label}</div>
+      <div className="w-full bg-white/10 rounded-full h-6">
+        <div
+          className="bg-gradient-to-r from-purple-500 to-pink-500 h-6 rounded-full transition-all duration-500"
+          style={{ width: `${total > 0 ? Math.min(100, (done / total) * 100) : 0}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (phase === 'lobby') {
+      return (
+        <div className="text-center space-y-8">
+          {roomId && roomId !== DEFAULT_ROOM_ID && (
+            <div className="text-8xl font-bold text-white font-mono tracking-[0.3em]">{roomId}</div>
+          )}
+          {qrCodeUrl && (
+            <Image src={qrCodeUrl} alt="QR code to join the game" width={320} height={320} unoptimized className="mx-auto rounded-xl bg-white p-3" />
+          )}
+          <div className="text-2xl text-gray-300 font-mono">{joinUrl}</div>
+          <div className="flex flex-wrap justify-center gap-3 max-w-4xl mx-auto">
+            {participants.map(player => (
+              <span key={player.id} className="px-5 py-2 bg-white/10 rounded-full text-2xl text-white">{player.name}</span>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    if (phase === 'role_reveal') {
+      return <div className="text-center text-6xl text-white animate-pulse">🎭 Check your phone for your secret role</div>;
+    }
+
+    if (roundNumber !== null && roundConfig) {
+      return (
+        <div className="text-center space-y-12">
+          <div>
+            <div className="text-4xl font-bold text-purple-300 mb-6">{roundConfig.title}</div>
+            <div className="text-5xl text-white leading-tight max-w-5xl mx-auto">{roundConfig.prompt}</div>
+          </div>
+          {renderProgress(submissionCount, activeCount, 'answered')}
+        </div>
+      );
+    }
+
+    if (eliminationRound !== null) {
+      return (
+        <div className="text-center space-y-8">
+          <div className="text-6xl text-white">🗳️ Who is hiding behind a machine?</div>
+          {gameState.eliminations.length > 0 && (
+            <div className="text-3xl text-gray-300">
+              Out so far: {gameState.eliminations.map(e => e.playerName).join(', ')}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (phase === 'voting') {
+      return (
+        <div className="text-center space-y-8">
+          <div className="text-6xl text-white">🗳️ Guess everyone&apos;s role on your phone</div>
+          <div className="text-4xl text-gray-300">{voteCount} votes cast</div>
+        </div>
+      );
+    }
+
+    if (phase === 'results' && results) {
+      return <ScreenResultsReveal results={results} resultsReveal={gameState.resultsReveal || { stage: 'leaderboard', revealedPlayerIds: [] }} />;
+    }
+
+    return <div className="text-center text-6xl text-white">🏁 Thanks for playing</div>;
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col p-10">
+      <div className="flex items-center justify-between mb-12">
+        <div className="text-3xl font-bold text-white">{phaseLabel}</div>
+        <div className="flex items-center space-x-6">
+          {!isConnected && <span className="text-xl text-yellow-300">{error || 'Reconnecting...'}</span>}
+          {gameState.pause && <div className="text-6xl font-bold text-yellow-300 animate-pulse">⏸️ Paused</div>}
+          {timeLeft !== null && (
+            <div className={`text-6xl font-mono font-bold ${timeLeft <= 30 ? 'text-red-400 animate-pulse' : 'text-white'}`}>
+              {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+            </div>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 flex items-center justify-center">
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import { useState, useEffect } from 'react';
 import { networkRecovery } from '@/lib/network-recovery';
 import { CompressionUtils } from '@/lib/compression-utils';
+import { RoundConfig } from '@/types/game';
+import PromptEditor from '@/components/PromptEditor';
+import TypingTelemetryCard, { TelemetryRow } from '@/components/TypingTelemetryCard';
 
 interface AdminControlsProps {
   isAdmin: boolean;
   gamePhase: string;
+  isPaused?: boolean;
+  roundConfigs: RoundConfig[];
 }
 
 interface SystemStats {
@@ -26,16 +31,17 @@ interface SystemStats {
   };
 }
 
-export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps) {
+export default function AdminControls({ isAdmin, gamePhase, isPaused = false, roundConfigs }: AdminControlsProps) {
   const [customTimer, setCustomTimer] = useState('60');
   const [mounted, setMounted] = useState(false);
   const [isDashboardOpen, setIsDashboardOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'controls' | 'monitor' | 'database' | 'network' | 'logs'>('controls');
+  const [activeTab, setActiveTab] = useState<'controls' | 'monitor' | 'typing' | 'database' | 'network' | 'logs'>('controls');
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null);
   const [consoleLogs, setConsoleLogs] = useState<Array<{ time: string; level: string; message: string; }>>([]);
   const [networkDiagnostics, setNetworkDiagnostics] = useState<any>(null);
   const [sessionData, setSessionData] = useState<any>(null);
   const [compressionStats, setCompressionStats] = useState<any>(null);
+  const [typingTelemetry, setTypingTelemetry] = useState<Array<TelemetryRow & { playerId: string; playerName: string }>>([]);
 
   // Prevent hydration mismatch
   useEffect(() => {
@@ -72,6 +78,13 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
           const sessions = await sessionResponse.json();
           setSessionData(sessions);
         }
+
+        // Get typing telemetry for this game's submissions
+        const telemetryResponse = await fetch('/api/admin/telemetry');
+        if (telemetryResponse.ok) {
+          const telemetry = await telemetryResponse.json();
+          setTypingTelemetry(telemetry.submissions);
+        }
       } catch (error) {
         console.error('Failed to update admin stats:', error);
       }
@@ -134,6 +147,26 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
     }
   };
 
+  // Freezes the clock and every player's input, resuming picks up where it stopped
+  const adminTogglePause = async () => {
+    const action = isPaused ? 'resume_game' : 'pause_game';
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        console.error(`Failed to ${isPaused ? 'resume' : 'pause'} game`);
+      }
+    } catch (error) {
+      console.error(`Error ${isPaused ? 'resuming' : 'pausing'} game:`, error);
+    }
+  };
+
   const adminSetTimer = async () => {
     const duration = parseInt(customTimer);
     if (isNaN(duration) || duration <= 0) {
@@ -275,7 +308,7 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
       <div className="bg-red-900/50 p-4 border-b border-red-500/30 flex items-center justify-between">
         <div className="flex items-center gap-4">
           <h1 className="text-red-400 font-bold text-lg">🔥 DEVELOPER DASHBOARD</h1>
-          <span className="text-gray-400 text-sm">Phase: {gamePhase}</span>
+          <span className="text-gray-400 text-sm">Phase: {gamePhase}{isPaused ? ' (paused)' : ''}</span>
           <span className="text-green-400 text-sm">● LIVE</span>
         </div>
         <button
@@ -291,6 +324,7 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
         {[
           { id: 'controls', icon: '🎮', label: 'GAME CONTROLS' },
           { id: 'monitor', icon: '📊', label: 'SYSTEM MONITOR' },
+          { id: 'typing', icon: '⌨️', label: 'TYPING' },
           { id: 'database', icon: '🗄️', label: 'DATABASE' },
           { id: 'network', icon: '🌐', label: 'NETWORK' },
           { id: 'logs', icon: '📝', label: 'CONSOLE LOGS' }
@@ -370,6 +404,14 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
               >
                 ⏩ SKIP PHASE
               </button>
+
+              <button
+                onClick={adminTogglePause}
+                disabled={!isPaused && ['lobby', 'results', 'finished'].includes(gamePhase)}
+                className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 text-white p-3 rounded-lg font-bold"
+              >
+                {isPaused ? '▶️ RESUME GAME' : '⏸️ PAUSE GAME'}
+              </button>
               
               <button
                 onClick={resetNetworkRecovery}
@@ -406,6 +448,8 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
               </div>
             </div>
 
+            {gamePhase === 'lobby' && <PromptEditor roundConfigs={roundConfigs} />}
+
             <div className="border border-gray-600 rounded-lg p-4">
               <h3 className="text-cyan-400 font-bold mb-2">TESTING TOOLS</h3>
               <div className="grid grid-cols-2 gap-2">
@@ -513,6 +557,30 @@ export default function AdminControls({ isAdmin, gamePhase }: AdminControlsProps
           </div>
         )}
 
+        {activeTab === 'typing' && (
+          <div className="space-y-4">
+            <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
+              <h3 className="text-blue-400 font-bold text-lg mb-2">⌨️ Typing Telemetry</h3>
+              <p className="text-gray-300 text-sm">
+                Cevapların nasıl yazıldığı: ilk tuşa kadar geçen süre, yazma hızı, düzeltmeler ve yapıştırmalar. Oyunculara sonuçlarda gösterilir.
+              </p>
+            </div>
+            {typingTelemetry.length === 0 ? (
+              <div className="text-gray-400 text-sm">No submissions yet</div>
+            ) : (
+              Array.from(new Set(typingTelemetry.map(entry => entry.playerId))).map(playerId => {
+                const rows = typingTelemetry.filter(entry => entry.playerId === playerId);
+                return (
+                  <div key={playerId} className="border border-gray-600 rounded-lg p-4">
+                    <h3 className="text-cyan-400 font-bold mb-2">{rows[0].playerName}</h3>
+                    <TypingTelemetryCard rows={rows} />
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
         {activeTab === 'database' && (
           <div className="space-y-4">
             {/* Simple Session & Player Info */}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+
+interface AssistantPanelProps {
+  roundNumber: number;
+  onUseDraft: (draft: string) => void;
+  isPaused?: boolean; // no drafts while the host has the game paused
+}
+
+// Drafts from the room's assistant endpoint, only rendered for ai_user players
+export default function AssistantPanel({ roundNumber, onUseDraft, isPaused }: AssistantPanelProps) {
+  const [hint, setHint] = useState('');
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHint('');
+    setDraft(null);
+    setError(null);
+  }, [roundNumber]);
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/assistant', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ roundNumber, hint: hint.trim() || undefined }),
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        setDraft(result.data.draft);
+      } else {
+        setError(result.error || 'Taslak üretilemedi');
+      }
+    } catch (error) {
+      console.error('Error generating assistant draft:', error);
+      setError('Taslak üretilemedi');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-blue-300">🤖 AI Asistanı</h4>
+        <span className="text-xs text-gray-400">Sadece sen görüyorsun</span>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={hint}
+          onChange={(e) => setHint(e.target.value)}
+          placeholder="İstersen yön ver: daha samimi, daha kısa..."
+          maxLength={200}
+          className="flex-1 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400"
+          disabled={isGenerating}
+        />
+        <button
+          onClick={generate}
+          disabled={isGenerating || isPaused}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm font-bold rounded-lg transition-colors"
+        >
+          {isGenerating ? 'Üretiliyor...' : 'Taslak Üret'}
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mt-3">
+          <div className="text-white bg-white/5 rounded-lg p-3 text-sm">{draft}</div>
+          <button
+            onClick={() => onUseDraft(draft)}
+            className="mt-2 text-sm text-blue-300 hover:text-blue-200 underline"
+          >
+            Cevaba kopyala
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-300">{error}</p>}
+    </div>
+  );
+}
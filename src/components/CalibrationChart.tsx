@@ -0,0 +1,43 @@
+import { CalibrationBucket } from '@/types/game';
+
+interface CalibrationChartProps {
+  calibration: CalibrationBucket[];
+  brierScore: number | null;
+}
+
+// One bar per confidence band, the marker shows how often a perfectly calibrated voter would be right
+export default function CalibrationChart({ calibration, brierScore }: CalibrationChartProps) {
+  if (brierScore === null) {
+    return <div className="text-xs text-gray-400">No votes cast</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-3">
+        <span className="text-gray-300">Calibration:</span>
+        <span className="text-xs text-gray-400">Brier score {brierScore.toFixed(3)} (lower is better)</span>
+      </div>
+      <div className="flex items-end gap-2 h-24">
+        {calibration.map(bucket => {
+          const hitRate = bucket.votes > 0 ? (bucket.correct / bucket.votes) * 100 : 0;
+          const expected = (bucket.minConfidence + bucket.maxConfidence) / 2;
+          return (
+            <div key={bucket.minConfidence} className="flex-1 flex flex-col items-center h-full">
+              <div className="relative w-full flex-1 bg-white/5 rounded">
+                {bucket.votes > 0 && (
+                  <div
+                    className={`absolute bottom-0 w-full rounded ${Math.abs(hitRate - expected) <= 15 ? 'bg-green-500/70' : 'bg-yellow-500/70'}`}
+                    style={{ height: `${hitRate}%` }}
+                  />
+                )}
+                <div className="absolute w-full border-t-2 border-dashed border-white/60" style={{ bottom: `${expected}%` }} />
+              </div>
+              <div className="text-[10px] text-gray-400 mt-1">{bucket.minConfidence}%+</div>
+              <div className="text-[10px] text-gray-500">{bucket.votes > 0 ? `${bucket.correct}/${bucket.votes}` : '-'}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
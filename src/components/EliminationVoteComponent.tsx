@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { PlayerRole, PublicGameState, Submission } from '@/types/game';
+import { ALL_ROLES, ROLE_DESCRIPTIONS, ROUND_CONFIGS } from '@/lib/game-config';
+
+interface EliminationVoteComponentProps {
+  gameState: PublicGameState;
+  submissions: Record<number, Submission[]>;
+  roundNumber: number;
+  timeLeft: number;
+  playerId: string;
+  isSpectator?: boolean;
+  isPaused?: boolean; // the host paused the game, votes are locked until it resumes
+  isEveryoneIn?: boolean; // every active player voted, the phase ends after a short countdown
+}
+
+export default function EliminationVoteComponent({ gameState, submissions, roundNumber, timeLeft, playerId, isSpectator, isPaused, isEveryoneIn }: EliminationVoteComponentProps) {
+  const [vote, setVote] = useState<{ targetPlayerId: string; predictedRole: PlayerRole } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const minutes = Math.floor(timeLeft / 60);
+  const seconds = timeLeft % 60;
+  const roundConfigs = gameState.roundConfigs || ROUND_CONFIGS;
+  const eliminations = gameState.eliminations || [];
+
+  const allPlayers = [
+    ...gameState.players,
+    ...(gameState.adminPlayer ? [gameState.adminPlayer] : []),
+  ];
+  const isEliminated = !!allPlayers.find(p => p.id === playerId)?.eliminatedInRound;
+  const suspects = allPlayers.filter(p => p.id !== playerId && !p.eliminatedInRound);
+
+  const castVote = async (targetPlayerId: string, predictedRole: PlayerRole) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/vote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ targetPlayerId, predictedRole }),
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        setVote({ targetPlayerId, predictedRole });
+      } else {
+        setError(result.error || 'Failed to submit vote');
+      }
+    } catch (error) {
+      setError('Failed to connect to server');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Latest answers first, that's what the table just read
+  const getPlayerSubmissions = (id: string) => roundConfigs
+    .map(({ roundNumber: round }) => (submissions[round] || []).find(s => s.playerId === id))
+    .filter((submission): submission is Submission => !!submission)
+    .reverse();
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center bg-white/10 backdrop-blur-sm rounded-2xl px-6 py-3 border border-white/20 mb-4">
+            <div className={`text-3xl font-mono font-bold ${timeLeft <= 15 ? 'text-red-400 animate-pulse' : 'text-white'}`}>
+              {minutes}:{seconds.toString().padStart(2, '0')}
+            </div>
+            <div className="ml-4 text-gray-300">{isPaused ? 'paused' : 'to vote'}</div>
+          </div>
+          <h1 className="text-4xl font-bold text-white mb-2">Elimination Vote</h1>
+          <p className="text-xl text-gray-300">
+            Round {roundNumber} is over. Who is the most suspicious?
+          </p>
+        </div>
+
+        {isPaused && (
+          <div className="mb-6 bg-yellow-500/20 border border-yellow-500/30 rounded-xl p-4 text-center text-yellow-300 font-medium">
+            ⏸️ The game is paused. Votes are locked and the clock is stopped until the host resumes.
+          </div>
+        )}
+
+        {isEveryoneIn && !isPaused && (
+          <div className="mb-6 bg-green-500/20 border border-green-500/30 rounded-xl p-4 text-center text-green-300 font-medium">
+            ⏩ Everyone has voted! The votes are counted shortly.
+          </div>
+        )}
+
+        {isSpectator && (
+          <div className="mb-6 bg-gray-500/20 border border-gray-500/30 rounded-xl p-4 text-center text-gray-300">
+            👀 You are spectating. You can read every answer but cannot vote.
+          </div>
+        )}
+
+        {isEliminated && (
+          <div className="mb-6 bg-gray-500/20 border border-gray-500/30 rounded-xl p-4 text-center text-gray-300">
+            👻 You have been eliminated. You can keep watching but can no longer vote.
+          </div>
+        )}
+
+        {eliminations.length > 0 && (
+          <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+            <h2 className="text-xl font-bold text-white mb-4">Eliminated</h2>
+            <div className="flex flex-wrap gap-3">
+              {eliminations.map(elimination => (
+                <div key={elimination.playerId} className={`px-4 py-2 rounded-xl text-white ${ROLE_DESCRIPTIONS[elimination.role].color}/30`}>
+                  <span className="font-bold">{elimination.playerName}</span>
+                  <span className="ml-2 text-sm text-gray-300">
+                    {ROLE_DESCRIPTIONS[elimination.role].name} · round {elimination.roundNumber}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 bg-red-500/20 border border-red-500/30 rounded-xl p-4">
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="grid gap-6">
+          {suspects.map(player => {
+            const isTarget = vote?.targetPlayerId === player.id;
+
+            return (
+              <div
+                key={player.id}
+                className={`bg-white/10 backdrop-blur-sm rounded-2xl border overflow-hidden ${isTarget ? 'border-red-400' : 'border-white/20'}`}
+              >
+                <div className="p-6 border-b border-white/20 flex items-center justify-between">
+                  <h3 className="text-2xl font-bold text-white">{player.name}</h3>
+                  {isTarget && <span className="text-red-300 font-medium">Your suspect</span>}
+                </div>
+
+                <div className="p-6">
+                  <div className="grid gap-3 mb-6">
+                    {getPlayerSubmissions(player.id).map(submission => (
+                      <div key={submission.id} className="bg-white/5 rounded-xl p-4">
+                        <div className="text-sm text-gray-400 mb-2">Round {submission.roundNumber}</div>
+                        <div className="text-gray-300">{submission.content}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {!isEliminated && !isSpectator && (
+                    <div className="grid grid-cols-3 gap-3">
+                      {ALL_ROLES.map(role => {
+                        const isSelected = isTarget && vote?.predictedRole === role;
+                        return (
+                          <button
+                            key={role}
+                            onClick={() => castVote(player.id, role)}
+                            disabled={isSubmitting || isPaused}
+                            className={`p-3 rounded-xl border-2 text-white font-semibold transition-all duration-200 ${
+                              isSelected
+                                ? `${ROLE_DESCRIPTIONS[role].color} border-white/50`
+                                : 'bg-white/5 border-white/20 hover:bg-white/10'
+                            } ${isSubmitting || isPaused ? 'opacity-50 cursor-not-allowed' : ''}`}
+                          >
+                            {ROLE_DESCRIPTIONS[role].name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { GameMode } from '@/types/game';
+import { GAME_MODES } from '@/lib/game-config';
+
+interface GameModePickerProps {
+  gameMode: GameMode;
+  anonymousVoting: boolean; // elimination votes name a player, the two can't be combined
+  isAdmin: boolean;
+}
+
+export default function GameModePicker({ gameMode, anonymousVoting, isAdmin }: GameModePickerProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setGameMode = async (mode: GameMode) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'set_game_mode', gameMode: mode }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || 'Failed to set game mode');
+      }
+    } catch (error) {
+      console.error('Error setting game mode:', error);
+      setError('Failed to set game mode');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-2 text-center">🎲 Oyun Modu</h3>
+      <p className="text-center text-gray-300 mb-4">{GAME_MODES[gameMode].name}</p>
+
+      {isAdmin && (
+        <div className="flex justify-center gap-2">
+          {(Object.keys(GAME_MODES) as GameMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => mode !== gameMode && setGameMode(mode)}
+              disabled={isSaving || (mode === 'elimination' && anonymousVoting)}
+              className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors disabled:opacity-50 ${
+                gameMode === mode ? 'bg-purple-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+              }`}
+            >
+              {GAME_MODES[mode].name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-center text-sm text-gray-400 mt-3">{GAME_MODES[gameMode].description}</p>
+
+      {isAdmin && anonymousVoting && gameMode !== 'elimination' && (
+        <p className="text-center text-xs text-gray-500 mt-2">Eleme modu için önce anonim oylamayı kapatın.</p>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200 text-sm text-center">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,61 @@
 import { GameState } from '@/types/game';
-import { GAME_CONFIG } from '@/lib/game-config';
+import { GAME_CONFIG, ROUND_CONFIGS, DEFAULT_ROLE_SETTINGS } from '@/lib/game-config';
+import { DEFAULT_PROMPT_PACK_ID } from '@/lib/prompt-packs';
+import { DEFAULT_SCORING_PRESET } from '@/lib/scoring';
 import Image from 'next/image';
 import { useState, useEffect } from 'react';
 import { formatTimeForDisplay } from '@/lib/date-utils';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import QRCode from 'qrcode';
+import PromptPackPicker from '@/components/PromptPackPicker';
+import RoleSettingsPanel from '@/components/RoleSettingsPanel';
+import ScoringPresetPicker from '@/components/ScoringPresetPicker';
+import GameModePicker from '@/components/GameModePicker';
+import RoomOptionsPanel from '@/components/RoomOptionsPanel';
 
 interface LobbyComponentProps {
   gameState: Omit<GameState, 'players'> & { players: Omit<GameState['players'][0], 'role'>[] };
   playerId: string;
+  botPlayerIds?: string[]; // only sent to the host
 }
 
-export default function LobbyComponent({ gameState, playerId }: LobbyComponentProps) {
-  const { players, minPlayers, maxPlayers, adminPlayer } = gameState;
+export default function LobbyComponent({ gameState, playerId, botPlayerIds = [] }: LobbyComponentProps) {
+  const { players, minPlayers, maxPlayers, adminPlayer, roomId } = gameState;
   const playerCount = players.length;
+  const participantCount = playerCount + (adminPlayer ? 1 : 0); // the host is dealt a role too
   const currentPlayer = players.find(p => p.id === playerId) || (adminPlayer?.id === playerId ? adminPlayer : null);
   const [currentUrl, setCurrentUrl] = useState('');
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   
-  const canStart = playerCount >= minPlayers;
+  const canStart = participantCount >= minPlayers;
   const willAutoStart = playerCount >= GAME_CONFIG.LOBBY_AUTO_START_THRESHOLD;
 
-  // Handle client-side URL access and admin check
+  // Handle client-side URL access - private rooms share a /join/<code> deep link
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      setCurrentUrl(window.location.origin);
+      const origin = window.location.origin;
+      setCurrentUrl(roomId && roomId !== DEFAULT_ROOM_ID ? `${origin}/join/${roomId}` : origin);
     }
-  }, []);
+  }, [roomId]);
+
+  // Render the share link as a QR code so people in the same room can scan it
+  useEffect(() => {
+    if (!currentUrl) return;
+
+    let cancelled = false;
+    QRCode.toDataURL(currentUrl, { width: 200, margin: 1 })
+      .then(url => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch(error => {
+        console.error('Failed to generate QR code:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUrl]);
 
   // Handle admin status client-side
   useEffect(() => {
@@ -90,6 +121,47 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
     }
   };
 
+  const adminAddBot = async () => {
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'add_bot' }),
+      });
+      
+      if (!response.ok) {
+        console.error('Failed to add bot');
+      }
+    } catch (error) {
+      console.error('Error adding bot:', error);
+    }
+  };
+
+  const adminTransferHost = async (targetPlayerId: string, targetName: string) => {
+    if (!confirm(`Make ${targetName} the host? You will lose admin controls.`)) return;
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ 
+          action: 'transfer_host',
+          playerId: targetPlayerId 
+        }),
+      });
+      
+      if (!response.ok) {
+        console.error('Failed to transfer host');
+      }
+    } catch (error) {
+      console.error('Error transferring host:', error);
+    }
+  };
+
   const adminResetGame = async () => {
     if (confirm('Reset game? This will kick all players.')) {
       try {
@@ -150,23 +222,23 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
             <div className="w-full max-w-md">
               <div className="flex justify-between text-sm text-gray-300 mb-2">
                 <span>Oyuncular</span>
-                <span>{playerCount >= minPlayers ? 'Hazır!' : `${minPlayers - playerCount} kişi daha gerekli`}</span>
+                <span>{participantCount >= minPlayers ? 'Hazır!' : `${minPlayers - participantCount} kişi daha gerekli`}</span>
               </div>
               <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
                 <div 
                   className={`h-full transition-all duration-500 ${
-                    playerCount >= minPlayers 
+                    participantCount >= minPlayers 
                       ? 'bg-gradient-to-r from-green-500 to-emerald-500' 
                       : 'bg-gradient-to-r from-yellow-500 to-orange-500'
                   }`}
-                  style={{ width: `${Math.min((playerCount / minPlayers) * 100, 100)}%` }}
+                  style={{ width: `${Math.min((participantCount / minPlayers) * 100, 100)}%` }}
                 />
               </div>
             </div>
           </div>
 
           <div className="flex flex-col gap-3">
-            {canStart && !willAutoStart && (
+            {isAdmin && canStart && !willAutoStart && (
               <button
                 onClick={startGame}
                 className="px-8 py-3 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-bold rounded-xl text-lg transition-all duration-200 transform hover:scale-105 shadow-lg"
@@ -194,6 +266,38 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
           </div>
         </div>
 
+        <GameModePicker
+          gameMode={gameState.gameMode || 'classic'}
+          anonymousVoting={!!gameState.anonymousVoting}
+          isAdmin={isAdmin}
+        />
+
+        {/* Prompt Pack - the host picks the rounds before starting */}
+        <PromptPackPicker
+          promptPackId={gameState.promptPackId || DEFAULT_PROMPT_PACK_ID}
+          roundConfigs={gameState.roundConfigs || ROUND_CONFIGS}
+          isAdmin={isAdmin}
+        />
+
+        <RoleSettingsPanel
+          roleSettings={gameState.roleSettings || DEFAULT_ROLE_SETTINGS}
+          participantCount={participantCount}
+          isAdmin={isAdmin}
+        />
+
+        <ScoringPresetPicker
+          scoringPreset={gameState.scoringPreset || DEFAULT_SCORING_PRESET}
+          isAdmin={isAdmin}
+        />
+
+        <RoomOptionsPanel
+          anonymousVoting={!!gameState.anonymousVoting}
+          gameMode={gameState.gameMode || 'classic'}
+          autoAdvance={!!gameState.autoAdvance}
+          assistantEnabled={!!gameState.assistantEnabled}
+          isAdmin={isAdmin}
+        />
+
         {/* Admin Section */}
         {adminPlayer && (
           <div className="bg-red-500/10 backdrop-blur-sm rounded-2xl p-6 border border-red-500/30 mb-6">
@@ -241,6 +345,7 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {players.map((player, index) => {
               const isCurrentPlayer = player.id === playerId;
+              const isBot = botPlayerIds.includes(player.id);
               const joinTime = formatTimeForDisplay(player.joinedAt);
 
               return (
@@ -260,6 +365,11 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
                         player.isConnected ? 'bg-green-400' : 'bg-red-400'
                       }`} />
                       <span className="text-sm text-gray-400">#{index + 1}</span>
+                      {isBot && (
+                        <span className="ml-2 text-xs px-1 py-0.5 bg-cyan-600 text-white rounded font-medium">
+                          🤖 BOT
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       {isCurrentPlayer && (
@@ -267,6 +377,14 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
                           Sen
                         </span>
                       )}
+                      {isAdmin && !isCurrentPlayer && !isBot && (
+                        <button
+                          onClick={() => adminTransferHost(player.id, player.name)}
+                          className="text-xs px-2 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded font-medium transition-colors"
+                        >
+                          Host Yap
+                        </button>
+                      )}
                       {isAdmin && !isCurrentPlayer && (
                         <button
                           onClick={() => adminKickPlayer(player.id)}
@@ -296,7 +414,7 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
             })}
             
             {/* Empty slots */}
-            {Array.from({ length: Math.max(0, minPlayers - playerCount) }).map((_, index) => (
+            {Array.from({ length: Math.max(0, minPlayers - participantCount) }).map((_, index) => (
               <div 
                 key={`empty-${index}`}
                 className="p-4 rounded-xl border-2 border-dashed border-white/20 bg-white/5 flex items-center justify-center"
@@ -308,6 +426,19 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
               </div>
             ))}
           </div>
+
+          {/* Bots fill empty seats, the other players are not told which ones */}
+          {isAdmin && playerCount < maxPlayers && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={adminAddBot}
+                className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold transition-colors"
+              >
+                🤖 Bot Ekle
+              </button>
+              <p className="text-xs text-gray-400 mt-2">Botların kim olduğunu sadece sen görürsün</p>
+            </div>
+          )}
         </div>
 
         {/* Game Rules Reminder */}
@@ -334,6 +465,12 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
 
         {/* Share Link */}
         <div className="mt-6 text-center">
+          {roomId && roomId !== DEFAULT_ROOM_ID && (
+            <div className="mb-3">
+              <p className="text-gray-400 text-sm">Room code</p>
+              <p className="text-4xl font-bold text-white font-mono tracking-[0.3em]">{roomId}</p>
+            </div>
+          )}
           <p className="text-gray-400 text-sm mb-2">
             Share this link with friends to join:
           </p>
@@ -353,6 +490,19 @@ export default function LobbyComponent({ gameState, playerId }: LobbyComponentPr
               Copy
             </button>
           </div>
+          {qrCodeUrl && (
+            <div className="mt-4 flex justify-center">
+              <div className="bg-white rounded-xl p-2">
+                <Image
+                  src={qrCodeUrl}
+                  alt="Scan to join this room"
+                  width={200}
+                  height={200}
+                  unoptimized
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,47 @@
+import { MachineVerdict, PlayerRole } from '@/types/game';
+import { isMachineRight } from '@/lib/stylometry';
+
+interface MachineVerdictCardProps {
+  verdict: MachineVerdict | undefined;
+  actualRole: PlayerRole;
+}
+
+// The machine judge's call on one player, shown under the human votes for comparison
+export default function MachineVerdictCard({ verdict, actualRole }: MachineVerdictCardProps) {
+  if (!verdict || verdict.wordCount === 0) {
+    return <div className="text-sm text-gray-400">🖥️ Machine&apos;s verdict: nothing to read</div>;
+  }
+
+  const isRight = isMachineRight(verdict, actualRole);
+  // The signals that pulled hardest, whichever way they pulled
+  const topSignals = [...verdict.signals]
+    .filter(signal => signal.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 3);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-300">
+          🖥️ Machine&apos;s verdict: <span className="font-bold text-white">{verdict.aiLikelihood}% AI-like</span>
+          {' '}({verdict.guess === 'ai_user' ? 'AI User' : 'Human'})
+        </span>
+        <span className={isRight ? 'text-green-400' : 'text-red-400'}>
+          {isRight ? '✓ Machine was right' : '✗ Machine was fooled'}
+        </span>
+      </div>
+      <div className="w-full bg-gray-700 rounded-full h-2 mt-2">
+        <div className="h-2 rounded-full bg-cyan-500" style={{ width: `${verdict.aiLikelihood}%` }} />
+      </div>
+      {topSignals.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs text-gray-300 mt-2">
+          {topSignals.map(signal => (
+            <span key={signal.id} className="px-2 py-1 bg-white/10 rounded-full">
+              {signal.leansAi ? '🤖' : '👤'} {signal.label} {Math.round(signal.value * 100)}%
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { PromptPackRound, RoundConfig } from '@/types/game';
+import {
+  roundConfigToPromptPackRound,
+  MAX_PROMPT_PACK_ROUNDS,
+  MIN_ROUND_DURATION,
+  MAX_ROUND_DURATION,
+  MIN_MAX_LENGTH,
+  MAX_MAX_LENGTH,
+} from '@/lib/prompt-packs';
+
+interface PromptEditorProps {
+  roundConfigs: RoundConfig[];
+}
+
+const EMPTY_ROUND: PromptPackRound = {
+  title: '',
+  description: '',
+  prompt: { tr: '', en: '' },
+  duration: 3,
+  maxLength: 150,
+};
+
+export default function PromptEditor({ roundConfigs }: PromptEditorProps) {
+  const [rounds, setRounds] = useState<PromptPackRound[]>(() => roundConfigs.map(roundConfigToPromptPackRound));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  // Follow pack changes made elsewhere (lobby picker, another host tab) until the host starts editing
+  useEffect(() => {
+    if (!isDirty) {
+      setRounds(roundConfigs.map(roundConfigToPromptPackRound));
+    }
+  }, [roundConfigs, isDirty]);
+
+  const updateRounds = (next: PromptPackRound[]) => {
+    setRounds(next);
+    setIsDirty(true);
+    setSavedMessage(null);
+  };
+
+  const updateRound = (index: number, changes: Partial<PromptPackRound>) => {
+    updateRounds(rounds.map((round, i) => (i === index ? { ...round, ...changes } : round)));
+  };
+
+  const moveRound = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rounds.length) return;
+    const next = [...rounds];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRounds(next);
+  };
+
+  const removeRound = (index: number) => {
+    updateRounds(rounds.filter((_, i) => i !== index));
+  };
+
+  const addRound = () => {
+    if (rounds.length >= MAX_PROMPT_PACK_ROUNDS) return;
+    updateRounds([...rounds, { ...EMPTY_ROUND, prompt: { ...EMPTY_ROUND.prompt } }]);
+  };
+
+  const discardChanges = () => {
+    setRounds(roundConfigs.map(roundConfigToPromptPackRound));
+    setIsDirty(false);
+    setErrors([]);
+  };
+
+  const saveRounds = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    setSavedMessage(null);
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'set_custom_rounds', rounds }),
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        setIsDirty(false);
+        setSavedMessage(result.data?.message || 'Rounds saved');
+      } else {
+        setErrors(result.data?.errors || [result.error || 'Failed to save rounds']);
+      }
+    } catch (error) {
+      console.error('Error saving custom rounds:', error);
+      setErrors(['Failed to save rounds']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-white text-sm';
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-cyan-400 font-bold">PROMPT EDITOR</h3>
+        <span className="text-gray-400 text-xs">
+          {rounds.length}/{MAX_PROMPT_PACK_ROUNDS} rounds{isDirty ? ' · unsaved changes' : ''}
+        </span>
+      </div>
+      <p className="text-gray-400 text-xs mb-4">
+        Write your own rounds before starting. Duration {MIN_ROUND_DURATION}-{MAX_ROUND_DURATION} minutes, max length {MIN_MAX_LENGTH}-{MAX_MAX_LENGTH} characters.
+      </p>
+
+      <div className="space-y-3">
+        {rounds.map((round, index) => (
+          <div key={index} className="bg-black/30 border border-gray-700 rounded p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400 text-sm w-16">#{index + 1}</span>
+              <input
+                value={round.title}
+                onChange={(e) => updateRound(index, { title: e.target.value })}
+                className={inputClass}
+                placeholder="Title"
+              />
+              <button
+                onClick={() => moveRound(index, -1)}
+                disabled={index === 0}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-30 text-white rounded text-sm"
+                title="Move up"
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => moveRound(index, 1)}
+                disabled={index === rounds.length - 1}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-30 text-white rounded text-sm"
+                title="Move down"
+              >
+                ▼
+              </button>
+              <button
+                onClick={() => removeRound(index)}
+                className="px-2 py-1 bg-red-700 hover:bg-red-800 text-white rounded text-sm"
+                title="Remove round"
+              >
+                ✕
+              </button>
+            </div>
+            <input
+              value={round.description}
+              onChange={(e) => updateRound(index, { description: e.target.value })}
+              className={inputClass}
+              placeholder="Description"
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <textarea
+                value={round.prompt.tr}
+                onChange={(e) => updateRound(index, { prompt: { ...round.prompt, tr: e.target.value } })}
+                className={`${inputClass} h-16 resize-none`}
+                placeholder="Prompt (TR)"
+              />
+              <textarea
+                value={round.prompt.en}
+                onChange={(e) => updateRound(index, { prompt: { ...round.prompt, en: e.target.value } })}
+                className={`${inputClass} h-16 resize-none`}
+                placeholder="Prompt (EN)"
+              />
+            </div>
+            <div className="flex gap-4 text-sm text-gray-400">
+              <label className="flex items-center gap-2">
+                Minutes
+                <input
+                  type="number"
+                  value={round.duration}
+                  onChange={(e) => updateRound(index, { duration: parseFloat(e.target.value) })}
+                  min={MIN_ROUND_DURATION}
+                  max={MAX_ROUND_DURATION}
+                  step={0.5}
+                  className="w-20 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Max length
+                <input
+                  type="number"
+                  value={round.maxLength}
+                  onChange={(e) => updateRound(index, { maxLength: parseInt(e.target.value) })}
+                  min={MIN_MAX_LENGTH}
+                  max={MAX_MAX_LENGTH}
+                  className="w-24 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white"
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={addRound}
+          disabled={rounds.length >= MAX_PROMPT_PACK_ROUNDS}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded font-bold text-sm"
+        >
+          ➕ ADD ROUND
+        </button>
+        <button
+          onClick={saveRounds}
+          disabled={isSaving || !isDirty}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded font-bold text-sm"
+        >
+          💾 {isSaving ? 'SAVING...' : 'SAVE ROUNDS'}
+        </button>
+        {isDirty && (
+          <button
+            onClick={discardChanges}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded font-bold text-sm"
+          >
+            ↩️ DISCARD
+          </button>
+        )}
+      </div>
+
+      {savedMessage && <div className="mt-3 text-green-400 text-sm">{savedMessage}</div>}
+      {errors.length > 0 && (
+        <div className="mt-3 p-3 bg-red-900/30 border border-red-500/50 rounded text-red-300 text-sm">
+          <ul className="list-disc list-inside space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { PromptPackSummary, RoundConfig } from '@/types/game';
+import { CUSTOM_PROMPT_PACK_ID } from '@/lib/prompt-packs';
+
+interface PromptPackPickerProps {
+  promptPackId: string;
+  roundConfigs: RoundConfig[];
+  isAdmin: boolean;
+}
+
+export default function PromptPackPicker({ promptPackId, roundConfigs, isAdmin }: PromptPackPickerProps) {
+  const [packs, setPacks] = useState<PromptPackSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch('/api/prompt-packs')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setPacks(result.data.packs);
+      })
+      .catch(error => {
+        console.error('Failed to load prompt packs:', error);
+      });
+  }, []);
+
+  const selectedPack = packs.find(pack => pack.id === promptPackId);
+
+  const setPromptPack = async (payload: { packId?: string; pack?: unknown }) => {
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'set_prompt_pack', ...payload }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        setErrors(result.data?.errors || [result.error || 'Failed to set prompt pack']);
+      }
+    } catch (error) {
+      console.error('Error setting prompt pack:', error);
+      setErrors(['Failed to set prompt pack']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Custom packs are read in the browser and validated by the server
+  const uploadPack = async (file: File) => {
+    try {
+      const pack = JSON.parse(await file.text());
+      await setPromptPack({ pack });
+    } catch {
+      setErrors([`${file.name} is not valid JSON`]);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-2 text-center">📝 Soru Paketi</h3>
+      <p className="text-center text-gray-300 mb-4">
+        {selectedPack ? selectedPack.name : promptPackId === CUSTOM_PROMPT_PACK_ID ? 'Host tarafından yazılan sorular' : promptPackId} · {roundConfigs.length} tur
+      </p>
+
+      {isAdmin && (
+        <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
+          <select
+            value={packs.some(pack => pack.id === promptPackId) ? promptPackId : ''}
+            onChange={(e) => e.target.value && setPromptPack({ packId: e.target.value })}
+            disabled={isSaving}
+            className="px-4 py-2 bg-white/10 border border-white/30 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {!packs.some(pack => pack.id === promptPackId) && (
+              <option value="" className="bg-gray-800">Özel paket</option>
+            )}
+            {packs.map(pack => (
+              <option key={pack.id} value={pack.id} className="bg-gray-800">
+                {pack.name} ({pack.roundCount} tur)
+              </option>
+            ))}
+          </select>
+
+          <label className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-bold rounded-xl cursor-pointer transition-colors">
+            JSON Paket Yükle
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              disabled={isSaving}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadPack(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      )}
+
+      {selectedPack?.description && (
+        <p className="text-center text-sm text-gray-400 mt-3">{selectedPack.description}</p>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200 text-sm">
+          <ul className="list-disc list-inside space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
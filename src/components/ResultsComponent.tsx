@@ -1,50 +1,28 @@
-import { useState, useEffect } from 'react';
-import { GameState, GameResults, Submission } from '@/types/game';
+import { useState } from 'react';
+import { GameState, GameResults, ResultsReveal, Submission } from '@/types/game';
 import { ROLE_DESCRIPTIONS, ROUND_CONFIGS } from '@/lib/game-config';
 import { formatTimeForDisplay } from '@/lib/date-utils';
+import CalibrationChart from '@/components/CalibrationChart';
+import MachineVerdictCard from '@/components/MachineVerdictCard';
+import TypingTelemetryCard from '@/components/TypingTelemetryCard';
+import TypingReplayPlayer from '@/components/TypingReplayPlayer';
 
 interface ResultsComponentProps {
   results: GameResults | undefined;
   gameState: Omit<GameState, 'players'> & { players: Omit<GameState['players'][0], 'role'>[] };
   submissions: Record<number, Submission[]>;
+  isAdmin?: boolean; // the host drives the reveal
 }
 
-export default function ResultsComponent({ results, gameState, submissions }: ResultsComponentProps) {
-  const [revealedPlayers, setRevealedPlayers] = useState<Set<string>>(new Set());
+export default function ResultsComponent({ results, gameState, submissions, isAdmin = false }: ResultsComponentProps) {
   const [currentView, setCurrentView] = useState<'leaderboard' | 'analysis' | 'submissions'>('leaderboard');
-  const [animationPhase, setAnimationPhase] = useState<'initial' | 'revealing' | 'complete'>('initial');
+  const [isRevealing, setIsRevealing] = useState(false);
 
-  // Initialize animation when results first arrive
-  useEffect(() => {
-    if (results && animationPhase === 'initial') {
-      const timer1 = setTimeout(() => setAnimationPhase('revealing'), 1000);
-      return () => clearTimeout(timer1);
-    }
-  }, [results, animationPhase]);
-
-  // Handle revealing animation
-  useEffect(() => {
-    if (results && animationPhase === 'revealing') {
-      const revealTimer = setInterval(() => {
-        setRevealedPlayers(prev => {
-          if (prev.size >= results.finalScores.length) {
-            clearInterval(revealTimer);
-            setAnimationPhase('complete');
-            return prev;
-          }
-          
-          const nextIndex = prev.size;
-          const nextPlayerId = results.finalScores[nextIndex]?.playerId;
-          if (nextPlayerId) {
-            return new Set([...prev, nextPlayerId]);
-          }
-          return prev;
-        });
-      }, 800); // Reveal one player every 0.8 seconds
-
-      return () => clearInterval(revealTimer);
-    }
-  }, [results, animationPhase]);
+  // The host steps everyone through the reveal together, the views open up once the leaderboard is shown
+  const resultsReveal: ResultsReveal = gameState.resultsReveal || { stage: 'leaderboard', revealedPlayerIds: [] };
+  const revealedPlayers = new Set(resultsReveal.revealedPlayerIds);
+  const isRevealComplete = resultsReveal.stage === 'leaderboard';
+  const activeView = isRevealComplete ? currentView : resultsReveal.stage === 'votes' ? 'analysis' : 'leaderboard';
 
   if (!results) {
     return (
@@ -57,7 +35,15 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
     );
   }
 
+  const roundConfigs = gameState.roundConfigs || ROUND_CONFIGS;
+
   const newGame = async () => {
+    // Only the host can reset the room, everyone else just heads back home
+    if (!isAdmin) {
+      window.location.href = '/';
+      return;
+    }
+
     try {
       const response = await fetch('/api/game-state', {
         method: 'POST',
@@ -77,12 +63,59 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
     }
   };
 
+  const sendRevealAction = async (action: 'reveal_next_player' | 'show_vote_distribution' | 'show_leaderboard') => {
+    setIsRevealing(true);
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        console.error(`Failed to send reveal action ${action}`);
+      }
+    } catch (error) {
+      console.error('Error sending reveal action:', error);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const elimination = results.elimination;
+  const eliminationReasons = {
+    ai_users_eliminated: 'Every AI user was voted out',
+    humans_outnumbered: 'The AI users outnumbered the humans',
+    rounds_exhausted: 'The game ran out of rounds',
+  };
+
   const renderLeaderboard = () => (
     <div className="space-y-6">
+      {/* Elimination mode winner */}
+      {elimination && isRevealComplete && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20 text-center">
+          <h2 className="text-3xl font-bold text-white mb-2">
+            {elimination.winner === 'humans' ? '👤 Humans win!' : '🤖 AI users win!'}
+          </h2>
+          <p className="text-gray-300 mb-4">{eliminationReasons[elimination.reason]}</p>
+          {elimination.eliminations.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 text-sm">
+              {elimination.eliminations.map(e => (
+                <span key={e.playerId} className="px-3 py-1 bg-white/10 rounded-full text-gray-300">
+                  Round {e.roundNumber}: {e.playerName} ({ROLE_DESCRIPTIONS[e.role].name})
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Game Stats */}
       <div className="bg-gradient-to-r from-purple-500/20 to-pink-500/20 backdrop-blur-sm rounded-2xl p-6 border border-purple-500/30">
         <h2 className="text-2xl font-bold text-white mb-4 text-center">🎉 Game Complete!</h2>
-        <div className="grid md:grid-cols-4 gap-4 text-center">
+        <div className="grid md:grid-cols-5 gap-4 text-center">
           <div>
             <div className="text-3xl font-bold text-white">{results.gameStats.totalPlayers}</div>
             <div className="text-sm text-gray-300">Players</div>
@@ -96,7 +129,11 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
             <div className="text-sm text-gray-300">Avg Accuracy</div>
           </div>
           <div>
-            <div className="text-3xl font-bold text-white">8</div>
+            <div className="text-3xl font-bold text-white">{results.gameStats.machineAccuracy ?? 0}%</div>
+            <div className="text-sm text-gray-300">Machine Accuracy</div>
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-white">{roundConfigs.length}</div>
             <div className="text-sm text-gray-300">Rounds</div>
           </div>
         </div>
@@ -109,8 +146,8 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
         </div>
         
         <div className="divide-y divide-white/10">
-          {results.finalScores.map((score, index) => {
-            const isRevealed = revealedPlayers.has(score.playerId) || animationPhase === 'complete';
+          {results.finalScores.map(score => {
+            const isRevealed = revealedPlayers.has(score.playerId) || isRevealComplete;
             const roleInfo = ROLE_DESCRIPTIONS[score.role];
             
             return (
@@ -124,18 +161,21 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                   <div className="flex items-center space-x-4">
                     {/* Rank */}
                     <div className={`w-12 h-12 rounded-full flex items-center justify-center text-xl font-bold ${
-                      index === 0 ? 'bg-yellow-500 text-black' :
-                      index === 1 ? 'bg-gray-400 text-black' :
-                      index === 2 ? 'bg-amber-600 text-white' :
+                      score.rank === 1 ? 'bg-yellow-500 text-black' :
+                      score.rank === 2 ? 'bg-gray-400 text-black' :
+                      score.rank === 3 ? 'bg-amber-600 text-white' :
                       'bg-gray-600 text-white'
                     }`}>
-                      {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : index + 1}
+                      {score.rank === 1 ? '🥇' : score.rank === 2 ? '🥈' : score.rank === 3 ? '🥉' : score.rank}
                     </div>
 
                     {/* Player Info */}
                     <div>
                       <div className="flex items-center">
                         <span className="text-xl font-bold text-white">{score.playerName}</span>
+                        {results.pseudonyms?.[score.playerId] && (
+                          <span className="ml-2 text-sm text-purple-300">aka {results.pseudonyms[score.playerId]}</span>
+                        )}
                         {isRevealed && (
                           <div className={`ml-3 px-3 py-1 rounded-full text-sm font-medium animate-fadeIn ${roleInfo.color}/20 border ${roleInfo.color}/30 text-white`}>
                             {roleInfo.name}
@@ -148,9 +188,19 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                         {score.wasGuessedCorrectly ? (
                           <span className="text-red-400">Role Discovered</span>
                         ) : (
-                          <span className="text-green-400">+50 Stealth Bonus</span>
+                          <span className="text-green-400">Role Hidden</span>
                         )}
                       </div>
+                      {/* Where the points came from, rules that scored nothing are left out */}
+                      {score.breakdown && (
+                        <div className="flex flex-wrap gap-2 text-xs text-gray-300 mt-2">
+                          {score.breakdown.filter(entry => entry.points !== 0).map(entry => (
+                            <span key={entry.rule} className="px-2 py-1 bg-white/10 rounded-full">
+                              {entry.label}: {entry.points > 0 ? '+' : ''}{entry.points}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -162,7 +212,7 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                 </div>
 
                 {/* Role Reveal Animation */}
-                {isRevealed && animationPhase === 'complete' && (
+                {isRevealed && isRevealComplete && (
                   <div className="mt-4 bg-white/5 rounded-xl p-4 animate-slideDown">
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-gray-300">How others saw them:</span>
@@ -178,6 +228,11 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                         })}
                       </div>
                     </div>
+                    {score.calibration && (
+                      <div className="mt-4 pt-4 border-t border-white/10">
+                        <CalibrationChart calibration={score.calibration} brierScore={score.brierScore} />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -187,7 +242,7 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
       </div>
 
       {/* Special Awards */}
-      {animationPhase === 'complete' && (
+      {isRevealComplete && (
         <div className="grid md:grid-cols-2 gap-6 animate-fadeIn">
           <div className="bg-gradient-to-r from-yellow-500/20 to-orange-500/20 backdrop-blur-sm rounded-2xl p-6 border border-yellow-500/30">
             <h3 className="text-lg font-bold text-yellow-300 mb-2 flex items-center">
@@ -230,10 +285,17 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                     <p className="text-lg text-gray-300">Actually: {roleInfo.name}</p>
                   </div>
                 </div>
-                <div className={`px-4 py-2 rounded-xl font-bold text-lg ${
-                  wasGuessedCorrectly ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'
-                }`}>
-                  {wasGuessedCorrectly ? 'Discovered' : 'Hidden'}
+                <div className="text-right">
+                  <div className={`px-4 py-2 rounded-xl font-bold text-lg ${
+                    wasGuessedCorrectly ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'
+                  }`}>
+                    {wasGuessedCorrectly ? 'Discovered' : 'Hidden'}
+                  </div>
+                  {!result.mostVotedRole && (
+                    <div className="text-sm text-gray-400 mt-2">
+                      No consensus ({result.noConsensusReason === 'tie' ? 'votes tied' : 'no votes'})
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -266,6 +328,23 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                   );
                 })}
               </div>
+              <div className="mt-6 pt-4 border-t border-white/10">
+                <MachineVerdictCard
+                  verdict={results.machineVerdicts?.find(verdict => verdict.playerId === result.playerId)}
+                  actualRole={result.actualRole}
+                />
+              </div>
+              <div className="mt-4 pt-4 border-t border-white/10">
+                <TypingTelemetryCard
+                  rows={Object.values(submissions).flat()
+                    .filter(submission => submission.playerId === result.playerId)
+                    .map(submission => ({
+                      roundNumber: submission.roundNumber,
+                      contentLength: submission.content.length,
+                      telemetry: submission.telemetry,
+                    }))}
+                />
+              </div>
             </div>
           </div>
         );
@@ -275,21 +354,22 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
 
   const renderSubmissions = () => (
     <div className="space-y-8">
-      {[1, 2, 3, 4, 5, 6, 7, 8].map(roundNumber => {
+      {roundConfigs.map(roundConfig => {
+        const { roundNumber } = roundConfig;
         const roundSubmissions = submissions[roundNumber] || [];
-        const roundConfig = ROUND_CONFIGS.find(r => r.roundNumber === roundNumber);
         
         return (
           <div key={roundNumber} className="bg-white/10 backdrop-blur-sm rounded-2xl p-8 border border-white/20">
             <h2 className="text-2xl font-bold text-white mb-2">
-              Round {roundNumber}: {roundConfig?.title}
+              Round {roundNumber}: {roundConfig.title}
             </h2>
-            <p className="text-gray-300 mb-6">{roundConfig?.description}</p>
+            <p className="text-gray-300 mb-6">{roundConfig.description}</p>
             
             <div className="grid gap-4">
               {roundSubmissions.map(submission => {
                 const playerScore = results.finalScores.find(s => s.playerId === submission.playerId);
                 const roleInfo = playerScore ? ROLE_DESCRIPTIONS[playerScore.role] : null;
+                const assistantUsage = results.assistantUsage?.[submission.id];
                 
                 return (
                   <div key={submission.id} className="bg-white/5 rounded-xl p-4 border border-white/10">
@@ -301,14 +381,23 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
                             {roleInfo.name}
                           </div>
                         )}
+                        {assistantUsage && (
+                          <div className="px-2 py-1 rounded-full text-xs font-medium bg-blue-500/20 border border-blue-500/30 text-blue-200">
+                            🤖 {assistantUsage === 'verbatim' ? 'Assistant draft' : 'Edited assistant draft'}
+                          </div>
+                        )}
                       </div>
                       <div className="text-sm text-gray-400">
                         {formatTimeForDisplay(submission.submittedAt)}
                       </div>
                     </div>
-                    <div className="text-gray-300 leading-relaxed bg-white/5 rounded-lg p-3">
-                      {submission.content}
-                    </div>
+                    {submission.replay ? (
+                      <TypingReplayPlayer replay={submission.replay} content={submission.content} />
+                    ) : (
+                      <div className="text-gray-300 leading-relaxed bg-white/5 rounded-lg p-3">
+                        {submission.content}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -328,34 +417,70 @@ export default function ResultsComponent({ results, gameState, submissions }: Re
           <p className="text-xl text-gray-300">How did everyone do?</p>
         </div>
 
-        {/* View Navigation */}
-        <div className="flex justify-center mb-8">
-          <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-2 border border-white/20">
-            {[
-              { key: 'leaderboard', label: '🏆 Leaderboard', desc: 'Final scores' },
-              { key: 'analysis', label: '📊 Analysis', desc: 'Vote breakdown' },
-              { key: 'submissions', label: '📝 Submissions', desc: 'All responses' }
-            ].map(view => (
+        {/* Host reveal controls */}
+        {!isRevealComplete && isAdmin && (
+          <div className="flex flex-wrap justify-center gap-3 mb-8">
+            {resultsReveal.stage === 'players' && (
               <button
-                key={view.key}
-                onClick={() => setCurrentView(view.key as typeof currentView)}
-                className={`px-6 py-3 rounded-xl font-medium transition-all duration-200 ${
-                  currentView === view.key
-                    ? 'bg-purple-500 text-white shadow-lg' 
-                    : 'text-gray-300 hover:text-white hover:bg-white/5'
-                }`}
+                onClick={() => sendRevealAction('reveal_next_player')}
+                disabled={isRevealing || revealedPlayers.size >= results.gameStats.totalPlayers}
+                className="px-6 py-3 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 text-white font-bold rounded-xl transition-colors"
+              >
+                🎭 Reveal next player ({revealedPlayers.size}/{results.gameStats.totalPlayers})
+              </button>
+            )}
+            {resultsReveal.stage === 'players' && (
+              <button
+                onClick={() => sendRevealAction('show_vote_distribution')}
+                disabled={isRevealing}
+                className="px-6 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 text-white font-bold rounded-xl transition-colors"
               >
-                <div>{view.label}</div>
-                <div className="text-xs opacity-75">{view.desc}</div>
+                📊 Show vote distribution
               </button>
-            ))}
+            )}
+            <button
+              onClick={() => sendRevealAction('show_leaderboard')}
+              disabled={isRevealing}
+              className="px-6 py-3 bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-600 text-black font-bold rounded-xl transition-colors"
+            >
+              🏆 Show leaderboard
+            </button>
           </div>
-        </div>
+        )}
+        {!isRevealComplete && !isAdmin && (
+          <p className="text-center text-gray-300 mb-8 animate-pulse">The host is revealing the results...</p>
+        )}
+
+        {/* View Navigation */}
+        {isRevealComplete && (
+          <div className="flex justify-center mb-8">
+            <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-2 border border-white/20">
+              {[
+                { key: 'leaderboard', label: '🏆 Leaderboard', desc: 'Final scores' },
+                { key: 'analysis', label: '📊 Analysis', desc: 'Vote breakdown' },
+                { key: 'submissions', label: '📝 Submissions', desc: 'All responses' }
+              ].map(view => (
+                <button
+                  key={view.key}
+                  onClick={() => setCurrentView(view.key as typeof currentView)}
+                  className={`px-6 py-3 rounded-xl font-medium transition-all duration-200 ${
+                    currentView === view.key
+                      ? 'bg-purple-500 text-white shadow-lg' 
+                      : 'text-gray-300 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  <div>{view.label}</div>
+                  <div className="text-xs opacity-75">{view.desc}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Content */}
-        {currentView === 'leaderboard' && renderLeaderboard()}
-        {currentView === 'analysis' && renderAnalysis()}
-        {currentView === 'submissions' && renderSubmissions()}
+        {activeView === 'leaderboard' && renderLeaderboard()}
+        {activeView === 'analysis' && renderAnalysis()}
+        {activeView === 'submissions' && renderSubmissions()}
 
         {/* Actions */}
         <div className="text-center mt-12">
@@ -6,9 +6,10 @@ import Image from 'next/image';
 interface RoleRevealComponentProps {
   playerRole: PlayerRole | null;
   timeLeft: number;
+  isSpectator?: boolean;
 }
 
-export default function RoleRevealComponent({ playerRole, timeLeft }: RoleRevealComponentProps) {
+export default function RoleRevealComponent({ playerRole, timeLeft, isSpectator }: RoleRevealComponentProps) {
   const [revealed, setRevealed] = useState(false);
   const [showStrategy, setShowStrategy] = useState(false);
 
@@ -18,6 +19,18 @@ export default function RoleRevealComponent({ playerRole, timeLeft }: RoleReveal
     return () => clearTimeout(timer);
   }, []);
 
+  if (isSpectator) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-8 border border-white/20 text-center">
+          <div className="text-6xl mb-4">👀</div>
+          <h2 className="text-2xl font-bold text-white mb-4">İzleyicisin</h2>
+          <p className="text-gray-300">Oyun başladıktan sonra katıldın. Oyuncular rollerini öğreniyor, roller sonuçlarda açıklanacak.</p>
+        </div>
+      </div>
+    );
+  }
+
   if (!playerRole) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { PlayerRole, RoleSettings } from '@/types/game';
+import { ALL_ROLES, ROLE_DESCRIPTIONS, getRoleDistribution } from '@/lib/game-config';
+
+interface RoleSettingsPanelProps {
+  roleSettings: RoleSettings;
+  participantCount: number;
+  isAdmin: boolean;
+}
+
+export default function RoleSettingsPanel({ roleSettings, participantCount, isAdmin }: RoleSettingsPanelProps) {
+  const [draft, setDraft] = useState<RoleSettings>(roleSettings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Pick up changes broadcast from the server (or made in another host tab)
+  useEffect(() => {
+    setDraft(roleSettings);
+  }, [roleSettings]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(roleSettings);
+
+  // Preview what the current lobby would be dealt with the draft settings
+  let preview: Record<PlayerRole, number> | null = null;
+  let previewError: string | null = null;
+  try {
+    preview = getRoleDistribution(participantCount, draft);
+  } catch (error) {
+    previewError = error instanceof Error ? error.message : 'Invalid role settings';
+  }
+
+  const setValue = (role: PlayerRole, value: string) => {
+    const parsed = parseInt(value);
+    setDraft({ ...draft, values: { ...draft.values, [role]: isNaN(parsed) ? 0 : parsed } });
+  };
+
+  const saveSettings = async () => {
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'set_role_settings', roleSettings: draft }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        setErrors(result.data?.errors || [result.error || 'Failed to update role settings']);
+      }
+    } catch (error) {
+      console.error('Error updating role settings:', error);
+      setErrors(['Failed to update role settings']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-2 text-center">🎭 Rol Dağılımı</h3>
+      <p className="text-center text-gray-300 mb-4">
+        {roleSettings.mode === 'ratio' ? 'Oran' : 'Tam sayı'}:{' '}
+        {ALL_ROLES.map(role => `${ROLE_DESCRIPTIONS[role].name} ${roleSettings.values[role]}`).join(' · ')}
+      </p>
+
+      {isAdmin && (
+        <>
+          <div className="flex justify-center gap-2 mb-4">
+            {(['ratio', 'exact'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setDraft({ ...draft, mode })}
+                className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+                  draft.mode === mode ? 'bg-purple-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                }`}
+              >
+                {mode === 'ratio' ? 'Oran' : 'Tam Sayı'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {ALL_ROLES.map(role => (
+              <label key={role} className="flex flex-col items-center text-sm text-gray-300">
+                <span className="mb-1">{ROLE_DESCRIPTIONS[role].name}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.values[role]}
+                  onChange={(e) => setValue(role, e.target.value)}
+                  className="w-20 px-3 py-2 bg-white/10 border border-white/30 rounded-xl text-white text-center focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </label>
+            ))}
+          </div>
+
+          <p className={`text-center text-sm mb-4 ${previewError ? 'text-yellow-300' : 'text-gray-400'}`}>
+            {preview
+              ? `${participantCount} oyuncu için: ${ALL_ROLES.map(role => `${ROLE_DESCRIPTIONS[role].name} ${preview![role]}`).join(', ')}`
+              : `${participantCount} oyuncu ile başlatılamaz: ${previewError}`}
+          </p>
+
+          <div className="flex justify-center">
+            <button
+              onClick={saveSettings}
+              disabled={!isDirty || isSaving}
+              className="px-6 py-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 text-white font-bold rounded-xl text-sm transition-all duration-200 shadow-lg"
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Rolleri Kaydet'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200 text-sm">
+          <ul className="list-disc list-inside space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { GameMode } from '@/types/game';
+
+interface RoomOptionsPanelProps {
+  anonymousVoting: boolean;
+  gameMode: GameMode;
+  autoAdvance: boolean;
+  assistantEnabled: boolean;
+  isAdmin: boolean;
+}
+
+export default function RoomOptionsPanel({ anonymousVoting, gameMode, autoAdvance, assistantEnabled, isAdmin }: RoomOptionsPanelProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [assistantBaseUrl, setAssistantBaseUrl] = useState('http://localhost:8080/v1');
+  const [assistantModel, setAssistantModel] = useState('');
+  const [assistantApiKey, setAssistantApiKey] = useState('');
+
+  const sendAdminAction = async (payload: Record<string, unknown>) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || 'Failed to update room options');
+      }
+    } catch (error) {
+      console.error('Error updating room options:', error);
+      setError('Failed to update room options');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4 text-center">⚙️ Oda Ayarları</h3>
+
+      <label className="flex items-center justify-between gap-4 text-gray-300">
+        <span>
+          <span className="block font-bold text-white">🎭 Anonim Oylama</span>
+          <span className="block text-sm text-gray-400">
+            Oylamada cevaplar takma adlarla (Writer A, Writer B...) karışık gösterilir, isimler sonuçlarda açıklanır.
+          </span>
+          {gameMode === 'elimination' && (
+            <span className="block text-sm text-yellow-300">Eleme modunda oylar bir oyuncuyu seçtiği için kullanılamaz.</span>
+          )}
+        </span>
+        <input
+          type="checkbox"
+          checked={anonymousVoting}
+          disabled={!isAdmin || isSaving || (gameMode === 'elimination' && !anonymousVoting)}
+          onChange={(e) => sendAdminAction({ action: 'set_anonymous_voting', anonymousVoting: e.target.checked })}
+          className="w-6 h-6 accent-purple-500"
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-4 text-gray-300 mt-4">
+        <span>
+          <span className="block font-bold text-white">⏩ Otomatik İlerleme</span>
+          <span className="block text-sm text-gray-400">
+            Herkes cevabını ya da oyunu verdiğinde süre kısa bir geri sayıma iner, kimse boşuna beklemez.
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={autoAdvance}
+          disabled={!isAdmin || isSaving}
+          onChange={(e) => sendAdminAction({ action: 'set_auto_advance', autoAdvance: e.target.checked })}
+          className="w-6 h-6 accent-purple-500"
+        />
+      </label>
+
+      {/* Any OpenAI-compatible endpoint, e.g. a llama.cpp server, the key never leaves the server again */}
+      <div className="mt-6 pt-6 border-t border-white/10 text-gray-300">
+        <div className="flex items-center justify-between gap-4">
+          <span>
+            <span className="block font-bold text-white">🤖 AI Asistanı</span>
+            <span className="block text-sm text-gray-400">
+              AI kullanıcıları cevap taslaklarını oyunun içinden üretir, hangi cevapların taslaktan geldiği sonuçlarda görünür.
+            </span>
+          </span>
+          <span className={`text-sm font-bold ${assistantEnabled ? 'text-green-400' : 'text-gray-500'}`}>
+            {assistantEnabled ? 'Açık' : 'Kapalı'}
+          </span>
+        </div>
+
+        {isAdmin && (
+          <div className="mt-4 space-y-2">
+            <input
+              type="url"
+              value={assistantBaseUrl}
+              onChange={(e) => setAssistantBaseUrl(e.target.value)}
+              placeholder="http://localhost:8080/v1"
+              className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm placeholder-gray-500"
+            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={assistantModel}
+                onChange={(e) => setAssistantModel(e.target.value)}
+                placeholder="Model adı"
+                className="flex-1 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm placeholder-gray-500"
+              />
+              <input
+                type="password"
+                value={assistantApiKey}
+                onChange={(e) => setAssistantApiKey(e.target.value)}
+                placeholder="API anahtarı (isteğe bağlı)"
+                className="flex-1 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm placeholder-gray-500"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {assistantEnabled && (
+                <button
+                  onClick={() => sendAdminAction({ action: 'set_assistant', assistant: null })}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white/10 hover:bg-white/20 text-gray-300 text-sm font-bold rounded-lg transition-colors"
+                >
+                  Kapat
+                </button>
+              )}
+              <button
+                onClick={() => sendAdminAction({
+                  action: 'set_assistant',
+                  assistant: { baseUrl: assistantBaseUrl.trim(), model: assistantModel.trim(), apiKey: assistantApiKey.trim() || undefined },
+                })}
+                disabled={isSaving || !assistantBaseUrl.trim() || !assistantModel.trim()}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white text-sm font-bold rounded-lg transition-colors"
+              >
+                Kaydet
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200 text-sm text-center">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
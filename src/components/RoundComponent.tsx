@@ -1,15 +1,27 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ROUND_CONFIGS } from '@/lib/game-config';
+import { RoundConfig } from '@/types/game';
 import { useGameEvents } from '@/hooks/useGameEvents';
+import { useTypingTelemetry } from '@/hooks/useTypingTelemetry';
+import { useTypingReplay } from '@/hooks/useTypingReplay';
+import AssistantPanel from '@/components/AssistantPanel';
 
 interface RoundComponentProps {
   roundNumber: number;
+  roundConfigs: RoundConfig[];
   timeLeft: number;
   playerId: string;
+  isEliminated?: boolean;
+  isSpectator?: boolean; // joined after the start, watches without answering
+  showAssistant?: boolean; // ai_user players in a room with an assistant endpoint
+  isPaused?: boolean; // the host paused the game, the answer is locked until it resumes
+  isEveryoneIn?: boolean; // every active player answered, the round ends after a short countdown
 }
 
-export default function RoundComponent({ roundNumber, timeLeft, playerId }: RoundComponentProps) {
+export default function RoundComponent({ roundNumber, roundConfigs, timeLeft, playerId, isEliminated, isSpectator, showAssistant, isPaused, isEveryoneIn }: RoundComponentProps) {
   const { isConnected, isOffline, submitOffline } = useGameEvents();
+  const roundConfig = roundConfigs.find(r => r.roundNumber === roundNumber);
+  const { onKeyDown, onPaste, recordPaste, snapshot } = useTypingTelemetry(roundNumber);
+  const { recordChange, markPaste, finish } = useTypingReplay(roundNumber, roundConfig ? roundConfig.maxLength : 0);
   const [content, setContent] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
@@ -27,8 +39,6 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
     setOfflineSubmitted(false);
   }, [roundNumber]);
 
-  const roundConfig = ROUND_CONFIGS.find(r => r.roundNumber === roundNumber);
-
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
   const isTimeRunningOut = timeLeft <= 300; // 5 minutes
@@ -36,7 +46,7 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
   const isOverLimit = roundConfig ? characterCount > roundConfig.maxLength : false;
 
   const handleSubmit = useCallback(async () => {
-    if (!content.trim() || isOverLimit || hasSubmitted || offlineSubmitted) return;
+    if (!content.trim() || isOverLimit || hasSubmitted || offlineSubmitted || isPaused) return;
 
     setIsSubmitting(true);
     setError(null);
@@ -77,6 +87,8 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
         body: JSON.stringify({
           roundNumber,
           content: content.trim(),
+          telemetry: snapshot(),
+          replay: finish(content.trim()),
         }),
       });
       
@@ -120,14 +132,22 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
       console.log('SUBMIT: Finally block - setting isSubmitting to false');
       setIsSubmitting(false);
     }
-  }, [roundNumber, content, isOverLimit, hasSubmitted, offlineSubmitted, isOffline, isConnected, submitOffline, playerId]);
+  }, [roundNumber, content, isOverLimit, hasSubmitted, offlineSubmitted, isPaused, isOffline, isConnected, submitOffline, playerId, snapshot, finish]);
+
+  // A copied assistant draft counts as a paste
+  const applyDraft = useCallback((draft: string) => {
+    recordPaste(draft);
+    markPaste();
+    recordChange(draft);
+    setContent(draft);
+  }, [recordPaste, markPaste, recordChange]);
 
   // Auto-submit when time runs out
   useEffect(() => {
-    if (timeLeft <= 0 && content.trim() && !hasSubmitted && !offlineSubmitted && !isSubmitting) {
+    if (timeLeft <= 0 && content.trim() && !hasSubmitted && !offlineSubmitted && !isSubmitting && !isPaused) {
       handleSubmit();
     }
-  }, [timeLeft, content, hasSubmitted, offlineSubmitted, isSubmitting, handleSubmit]);
+  }, [timeLeft, content, hasSubmitted, offlineSubmitted, isSubmitting, isPaused, handleSubmit]);
 
   if (!roundConfig) {
     return (
@@ -149,7 +169,7 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
             <div className={`text-3xl font-mono font-bold ${isTimeRunningOut ? 'text-red-400 animate-pulse' : 'text-white'}`}>
               {minutes}:{seconds.toString().padStart(2, '0')}
             </div>
-            <div className="ml-4 text-gray-300">remaining</div>
+            <div className="ml-4 text-gray-300">{isPaused ? 'paused' : 'remaining'}</div>
           </div>
           <h1 className="text-4xl font-bold text-white mb-2">
             Round {roundNumber}: {roundConfig.title}
@@ -159,6 +179,18 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
           </p>
         </div>
 
+        {isPaused && (
+          <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-2xl p-4 mb-8 text-center">
+            <p className="text-yellow-300 font-medium">⏸️ Oyun duraklatıldı. Host devam ettirene kadar cevabın kilitli, süre de durdu.</p>
+          </div>
+        )}
+
+        {isEveryoneIn && !isPaused && (
+          <div className="bg-green-500/20 border border-green-500/30 rounded-2xl p-4 mb-8 text-center">
+            <p className="text-green-300 font-medium">⏩ Herkes cevabını gönderdi! Tur birazdan bitiyor.</p>
+          </div>
+        )}
+
         {/* Prompt */}
         {showPrompt && (
           <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 backdrop-blur-sm rounded-2xl p-8 mb-8 border border-blue-500/20">
@@ -208,7 +240,19 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
           </div>
 
           <div className="p-6">
-            {hasSubmitted || offlineSubmitted ? (
+            {isSpectator ? (
+              <div className="text-center py-12">
+                <div className="text-6xl mb-4">👀</div>
+                <h3 className="text-2xl font-bold text-gray-300 mb-2">İzleyicisin</h3>
+                <p className="text-gray-400">Oyuncular cevaplarını yazıyor. Cevapları oylama başlayınca göreceksin.</p>
+              </div>
+            ) : isEliminated ? (
+              <div className="text-center py-12">
+                <div className="text-6xl mb-4">👻</div>
+                <h3 className="text-2xl font-bold text-gray-300 mb-2">Elendin</h3>
+                <p className="text-gray-400">Artık cevap gönderemezsin, oyunu izlemeye devam edebilirsin.</p>
+              </div>
+            ) : hasSubmitted || offlineSubmitted ? (
               <div className="text-center py-12">
                 <div className="text-6xl mb-4">{offlineSubmitted ? '📱' : '✅'}</div>
                 <h3 className={`text-2xl font-bold mb-2 ${offlineSubmitted ? 'text-yellow-400' : 'text-green-400'}`}>
@@ -237,12 +281,22 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
               </div>
             ) : (
               <>
+                {showAssistant && <AssistantPanel roundNumber={roundNumber} onUseDraft={applyDraft} isPaused={isPaused} />}
+
                 <textarea
                   value={content}
-                  onChange={(e) => setContent(e.target.value)}
+                  onChange={(e) => {
+                    recordChange(e.target.value);
+                    setContent(e.target.value);
+                  }}
+                  onKeyDown={onKeyDown}
+                  onPaste={(e) => {
+                    onPaste(e);
+                    markPaste();
+                  }}
                   placeholder={`Cevabını buraya yazmaya başla...`}
                   className="w-full h-64 p-4 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || isPaused}
                   maxLength={roundConfig.maxLength + 100} // Allow slight overflow for UX
                 />
 
@@ -270,7 +324,7 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
 
                   <button
                     onClick={handleSubmit}
-                    disabled={!content.trim() || isOverLimit || isSubmitting || hasSubmitted || offlineSubmitted}
+                    disabled={!content.trim() || isOverLimit || isSubmitting || hasSubmitted || offlineSubmitted || isPaused}
                     className={`px-8 py-3 font-bold rounded-xl transition-all duration-200 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed shadow-lg ${
                       isOffline 
                         ? 'bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600'
@@ -328,7 +382,7 @@ export default function RoundComponent({ roundNumber, timeLeft, playerId }: Roun
             </span>
             <span className="flex items-center">
               <span className="w-2 h-2 bg-blue-400 rounded-full mr-2"></span>
-              Round {roundNumber} of 8
+              Round {roundNumber} of {roundConfigs.length}
             </span>
             {isOffline && (
               <span className="flex items-center text-yellow-400">
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { ScoringPresetId } from '@/types/game';
+import { SCORING_PRESETS, listScoringPresets } from '@/lib/scoring';
+
+interface ScoringPresetPickerProps {
+  scoringPreset: ScoringPresetId;
+  isAdmin: boolean;
+}
+
+export default function ScoringPresetPicker({ scoringPreset, isAdmin }: ScoringPresetPickerProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedPreset = SCORING_PRESETS[scoringPreset];
+
+  const setScoringPreset = async (preset: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'set_scoring_preset', scoringPreset: preset }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || 'Failed to set scoring preset');
+      }
+    } catch (error) {
+      console.error('Error setting scoring preset:', error);
+      setError('Failed to set scoring preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-2 text-center">🏆 Puanlama</h3>
+      <p className="text-center text-gray-300 mb-4">{selectedPreset ? selectedPreset.name : scoringPreset}</p>
+
+      {isAdmin && (
+        <div className="flex justify-center">
+          <select
+            value={scoringPreset}
+            onChange={(e) => setScoringPreset(e.target.value)}
+            disabled={isSaving}
+            className="px-4 py-2 bg-white/10 border border-white/30 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {listScoringPresets().map(preset => (
+              <option key={preset.id} value={preset.id} className="bg-gray-800">
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {selectedPreset && (
+        <p className="text-center text-sm text-gray-400 mt-3">{selectedPreset.description}</p>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200 text-sm text-center">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { GameResults, PlayerRole, ResultsReveal } from '@/types/game';
+import { ROLE_DESCRIPTIONS } from '@/lib/game-config';
+
+const ROLE_EMOJI: Record<PlayerRole, string> = {
+  human: '👤',
+  ai_user: '🤖',
+  troll: '👹',
+};
+
+interface ScreenResultsRevealProps {
+  results: GameResults;
+  resultsReveal: ResultsReveal;
+}
+
+// Results for the shared screen, following the host's reveal: roles from last place up, the votes, then the winner
+export default function ScreenResultsReveal({ results, resultsReveal }: ScreenResultsRevealProps) {
+  const { stage, revealedPlayerIds } = resultsReveal;
+  const isComplete = stage === 'leaderboard';
+
+  // The server reveals last place first, so the room builds up to the winner
+  const revealOrder = revealedPlayerIds
+    .map(id => results.finalScores.find(score => score.playerId === id))
+    .filter(score => !!score);
+  const revealedCount = revealOrder.length;
+
+  const latest = revealedCount > 0 ? revealOrder[revealedCount - 1] : null;
+  const winners = results.finalScores.filter(score => score.rank === 1);
+
+  if (stage === 'votes') {
+    return (
+      <div className="w-full max-w-6xl mx-auto space-y-8">
+        <div className="text-6xl font-bold text-white text-center">📊 How everyone voted</div>
+        <div className="grid grid-cols-2 gap-4">
+          {results.votingResults.map(result => (
+            <div key={result.playerId} className="rounded-xl px-5 py-4 bg-white/10 border border-white/20">
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-2xl font-bold text-white">{ROLE_EMOJI[result.actualRole]} {result.playerName}</span>
+                <span className={`text-lg font-bold ${result.mostVotedRole === result.actualRole ? 'text-red-300' : 'text-green-300'}`}>
+                  {result.mostVotedRole === result.actualRole ? 'Discovered' : 'Hidden'}
+                </span>
+              </div>
+              {result.votes.filter(vote => vote.count > 0).map(vote => (
+                <div key={vote.role} className="flex items-center space-x-3 text-lg text-gray-300">
+                  <span className="w-40">{ROLE_DESCRIPTIONS[vote.role].name}</span>
+                  <div className="flex-1 bg-gray-700 rounded-full h-3">
+                    <div className={`${ROLE_DESCRIPTIONS[vote.role].color} h-3 rounded-full`} style={{ width: `${vote.percentage}%` }}></div>
+                  </div>
+                  <span className="w-16 text-right">{vote.count}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-10">
+      <div className="text-center min-h-[16rem] flex flex-col items-center justify-center">
+        {!latest && (
+          <div className="text-6xl font-bold text-white animate-pulse">🥁 Who was who?</div>
+        )}
+        {latest && !isComplete && (
+          <div key={latest.playerId} className="animate-fadeIn">
+            <div className="text-3xl text-gray-300 mb-4">#{latest.rank} · {latest.points} points</div>
+            <div className="text-7xl font-bold text-white mb-6">{latest.playerName}</div>
+            <div className={`inline-block px-8 py-4 rounded-2xl text-5xl font-bold text-white ${ROLE_DESCRIPTIONS[latest.role].color}`}>
+              {ROLE_EMOJI[latest.role]} {ROLE_DESCRIPTIONS[latest.role].name}
+            </div>
+          </div>
+        )}
+        {isComplete && (
+          <div className="animate-fadeIn">
+            <div className="text-8xl mb-4">👑</div>
+            <div className="text-7xl font-bold text-yellow-300 mb-4">
+              {winners.map(winner => winner.playerName).join(' & ')}
+            </div>
+            <div className="text-3xl text-gray-300">{winners.length > 1 ? 'share the win' : 'wins the game'}</div>
+            {results.elimination && (
+              <div className="text-3xl text-white mt-6">
+                {results.elimination.winner === 'humans' ? '👤 The humans survived' : '🤖 The AI users took over'}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {revealedCount > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {[...revealOrder].reverse().map(score => (
+            <div
+              key={score.playerId}
+              className={`flex items-center justify-between rounded-xl px-5 py-4 bg-white/10 border ${
+                score.rank === 1 && isComplete ? 'border-yellow-400' : 'border-white/20'
+              }`}
+            >
+              <div className="flex items-center space-x-3">
+                <span className="text-4xl">{ROLE_EMOJI[score.role]}</span>
+                <div>
+                  <div className="text-2xl font-bold text-white">{score.playerName}</div>
+                  <div className="text-lg text-gray-300">{ROLE_DESCRIPTIONS[score.role].name}</div>
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-2xl font-bold text-white">{score.points}</div>
+                <div className="text-sm text-gray-400">#{score.rank}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isComplete && (
+        <div className="grid grid-cols-3 gap-6 text-center animate-fadeIn">
+          <div className="bg-white/10 rounded-2xl p-6">
+            <div className="text-xl text-yellow-300 mb-2">🎯 Most Accurate Detector</div>
+            <div className="text-3xl font-bold text-white">{results.gameStats.mostAccuratePlayer || '–'}</div>
+          </div>
+          <div className="bg-white/10 rounded-2xl p-6">
+            <div className="text-xl text-green-300 mb-2">🎭 Master of Disguise</div>
+            <div className="text-3xl font-bold text-white">{results.gameStats.bestHiddenRole || '–'}</div>
+          </div>
+          <div className="bg-white/10 rounded-2xl p-6">
+            <div className="text-xl text-blue-300 mb-2">🧠 Machine Judge</div>
+            <div className="text-3xl font-bold text-white">{results.gameStats.machineAccuracy}% right</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
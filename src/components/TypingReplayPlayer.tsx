@@ -0,0 +1,90 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CompressedReplay } from '@/types/game';
+import { CompressionUtils } from '@/lib/compression-utils';
+import { applyEdit } from '@/lib/typing-replay';
+import { PAUSE_THRESHOLD_MS } from '@/lib/typing-telemetry';
+
+const MAX_WAIT_MS = 1200; // long pauses are announced instead of sat through
+
+interface TypingReplayPlayerProps {
+  replay: CompressedReplay;
+  content: string;
+}
+
+// Plays an answer back the way it was typed, with pauses, deletions and pastes
+export default function TypingReplayPlayer({ replay, content }: TypingReplayPlayerProps) {
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const edits = useMemo(() => CompressionUtils.decompressReplay(replay), [replay]);
+  // The answer after each edit, frames[0] is the empty box
+  const frames = useMemo(() => {
+    const texts = [''];
+    edits.forEach(edit => texts.push(applyEdit(texts[texts.length - 1], edit)));
+    return texts;
+  }, [edits]);
+
+  const nextGap = step < edits.length ? edits[step].t - (step > 0 ? edits[step - 1].t : 0) : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= edits.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), Math.min(nextGap, MAX_WAIT_MS));
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, edits, nextGap]);
+
+  const play = () => {
+    setStep(0);
+    setIsPlaying(true);
+  };
+
+  const hasStarted = isPlaying || step > 0;
+  const lastEdit = step > 0 ? edits[step - 1] : null;
+
+  const renderFrame = () => {
+    const text = frames[step];
+    if (!lastEdit) {
+      return <span className="animate-pulse">|</span>;
+    }
+    const deleted = frames[step - 1].slice(lastEdit.at, lastEdit.at + lastEdit.del);
+    return (
+      <>
+        {text.slice(0, lastEdit.at)}
+        {deleted && <span className="text-red-400 line-through">{deleted}</span>}
+        <span className={lastEdit.paste ? 'bg-yellow-500/30 text-yellow-100' : 'bg-white/10 text-white'}>{lastEdit.ins}</span>
+        {isPlaying && <span className="animate-pulse">|</span>}
+        {text.slice(lastEdit.at + lastEdit.ins.length)}
+      </>
+    );
+  };
+
+  return (
+    <div>
+      <div className="text-gray-300 leading-relaxed bg-white/5 rounded-lg p-3 whitespace-pre-wrap">
+        {hasStarted ? renderFrame() : content}
+      </div>
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+        <button
+          onClick={play}
+          disabled={isPlaying}
+          className="text-purple-300 hover:text-purple-200 disabled:text-gray-500 font-medium"
+        >
+          {isPlaying ? '⌨️ Playing...' : hasStarted ? '↺ Replay' : '▶ Watch it being typed'}
+        </button>
+        {hasStarted && (
+          <span className="flex items-center space-x-3">
+            {isPlaying && nextGap > PAUSE_THRESHOLD_MS && (
+              <span className="text-blue-300">⏸ Paused for {(nextGap / 1000).toFixed(1)}s</span>
+            )}
+            {lastEdit?.paste && <span className="text-yellow-300">📋 Pasted</span>}
+            {lastEdit && lastEdit.del > 0 && <span className="text-red-300">⌫ Deleted</span>}
+            <span>{step}/{edits.length} edits</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { TypingTelemetry } from '@/types/game';
+import { getPasteShare, getWordsPerMinute } from '@/lib/typing-telemetry';
+
+export interface TelemetryRow {
+  roundNumber: number;
+  contentLength: number;
+  telemetry: TypingTelemetry | null | undefined;
+}
+
+interface TypingTelemetryCardProps {
+  rows: TelemetryRow[];
+}
+
+function formatSeconds(ms: number | null): string {
+  return ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// How one player's answers were written, round by round
+export default function TypingTelemetryCard({ rows }: TypingTelemetryCardProps) {
+  if (rows.length === 0) {
+    return <div className="text-sm text-gray-400">⌨️ Typing: no answers</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {[...rows].sort((a, b) => a.roundNumber - b.roundNumber).map(row => {
+        const { telemetry } = row;
+        if (!telemetry) {
+          return (
+            <div key={row.roundNumber} className="text-sm text-gray-400">
+              ⌨️ Round {row.roundNumber}: no typing data
+            </div>
+          );
+        }
+
+        const pasteShare = Math.round(getPasteShare(telemetry, row.contentLength) * 100);
+        const wordsPerMinute = getWordsPerMinute(telemetry);
+
+        return (
+          <div key={row.roundNumber} className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+            <span className="text-sm text-gray-300 mr-1">⌨️ Round {row.roundNumber}</span>
+            <span className="px-2 py-1 bg-white/10 rounded-full">First key {formatSeconds(telemetry.timeToFirstKeystrokeMs)}</span>
+            <span className="px-2 py-1 bg-white/10 rounded-full">{telemetry.keystrokes} keys</span>
+            <span className="px-2 py-1 bg-white/10 rounded-full">{wordsPerMinute !== null ? `${wordsPerMinute} wpm` : 'no cadence'}</span>
+            <span className="px-2 py-1 bg-white/10 rounded-full">{telemetry.edits} edits</span>
+            <span className={`px-2 py-1 rounded-full ${pasteShare >= 50 ? 'bg-red-500/30 text-red-300' : 'bg-white/10'}`}>
+              📋 {telemetry.pasteCount} pastes, {pasteShare}% pasted
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { GameState, Submission, PlayerRole } from '@/types/game';
-import { ROLE_DESCRIPTIONS, ROUND_CONFIGS } from '@/lib/game-config';
+import { AnonymousVotingBoard, GameState, Submission, PlayerRole } from '@/types/game';
+import { ROLE_DESCRIPTIONS, ROUND_CONFIGS, VOTE_CONFIDENCE } from '@/lib/game-config';
 import { formatTimeForDisplay } from '@/lib/date-utils';
 
 interface VotingComponentProps {
@@ -8,15 +8,38 @@ interface VotingComponentProps {
   submissions: Record<number, Submission[]>;
   timeLeft: number;
   playerId: string;
+  anonymousBoard?: AnonymousVotingBoard;
+  pseudonym?: string | null;
+  isSpectator?: boolean;
+  isPaused?: boolean; // the host paused the game, votes are locked until it resumes
+  isEveryoneIn?: boolean; // every active player voted, the phase ends after a short countdown
 }
 
 interface Vote {
   targetPlayerId: string;
   predictedRole: PlayerRole;
+  confidence: number;
 }
 
-export default function VotingComponent({ gameState, submissions, timeLeft, playerId }: VotingComponentProps) {
+// Pseudonyms stand in for players on an anonymous board, there are no timestamps to show
+function toBoardSubmissions(board: AnonymousVotingBoard): Record<number, Submission[]> {
+  const boardSubmissions: Record<number, Submission[]> = {};
+  Object.entries(board.submissions).forEach(([roundNumber, roundSubmissions]) => {
+    boardSubmissions[parseInt(roundNumber)] = roundSubmissions.map(submission => ({
+      id: submission.id,
+      playerId: submission.pseudonym,
+      playerName: submission.pseudonym,
+      roundNumber: submission.roundNumber,
+      content: submission.content,
+      submittedAt: null,
+    }));
+  });
+  return boardSubmissions;
+}
+
+export default function VotingComponent({ gameState, submissions: namedSubmissions, timeLeft, playerId, anonymousBoard, pseudonym, isSpectator, isPaused, isEveryoneIn }: VotingComponentProps) {
   const [votes, setVotes] = useState<Record<string, Vote>>({});
+  const [confidences, setConfidences] = useState<Record<string, number>>({});
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -31,12 +54,21 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
     ...gameState.players,
     ...(gameState.adminPlayer && gameState.adminPlayer.id !== playerId ? [gameState.adminPlayer] : [])
   ];
-  const otherPlayers = allPlayers.filter(p => p.id !== playerId);
+  // Anonymous boards are voted on by pseudonym, the server maps votes back to players
+  const isAnonymous = !!anonymousBoard;
+  const submissions = isAnonymous ? toBoardSubmissions(anonymousBoard) : namedSubmissions;
+  const otherPlayers = isAnonymous
+    ? anonymousBoard.pseudonyms.filter(name => name !== pseudonym).map(name => ({ id: name, name, isConnected: true }))
+    : allPlayers.filter(p => p.id !== playerId);
   const votedCount = Object.keys(votes).length;
+  const roundConfigs = gameState.roundConfigs || ROUND_CONFIGS;
   const totalPlayersToVote = otherPlayers.length;
 
+  const getConfidence = (targetPlayerId: string) => confidences[targetPlayerId] ?? VOTE_CONFIDENCE.DEFAULT;
+
   const handleVote = async (targetPlayerId: string, predictedRole: PlayerRole) => {
-    if (targetPlayerId === playerId) return; // Can't vote for yourself
+    if (targetPlayerId === playerId || isPaused) return; // Can't vote for yourself or while paused
+    const confidence = getConfidence(targetPlayerId);
 
     setIsSubmitting(true);
     setError(null);
@@ -48,8 +80,9 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          targetPlayerId,
+          ...(isAnonymous ? { targetPseudonym: targetPlayerId } : { targetPlayerId }),
           predictedRole,
+          confidence,
         }),
       });
 
@@ -58,7 +91,7 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
       if (result.success) {
         setVotes(prev => ({
           ...prev,
-          [targetPlayerId]: { targetPlayerId, predictedRole }
+          [targetPlayerId]: { targetPlayerId, predictedRole, confidence }
         }));
       } else {
         setError(result.error || 'Failed to submit vote');
@@ -82,13 +115,15 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
 
   // Render submission card
   const renderSubmission = (submission: Submission, roundNumber: number) => {
-    const roundConfig = ROUND_CONFIGS.find(r => r.roundNumber === roundNumber);
+    const roundConfig = roundConfigs.find(r => r.roundNumber === roundNumber);
     return (
       <div key={`${submission.playerId}-${roundNumber}`} className="bg-white/5 rounded-xl p-4 border border-white/10">
         <div className="flex items-center justify-between mb-3">
           <div className="flex items-center">
             <span className="text-lg font-bold text-white">{submission.playerName}</span>
-            <span className="ml-2 text-sm text-gray-400">#{gameState.players.findIndex(p => p.id === submission.playerId) + 1}</span>
+            {!isAnonymous && (
+              <span className="ml-2 text-sm text-gray-400">#{gameState.players.findIndex(p => p.id === submission.playerId) + 1}</span>
+            )}
           </div>
           <div className="text-sm text-gray-400">
             Round {roundNumber}: {roundConfig?.title}
@@ -97,9 +132,11 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
         <div className="text-gray-300 leading-relaxed mb-3 bg-white/5 rounded-lg p-3">
           {submission.content}
         </div>
-        <div className="text-xs text-gray-500">
-          Submitted at {formatTimeForDisplay(submission.submittedAt)}
-        </div>
+        {submission.submittedAt && (
+          <div className="text-xs text-gray-500">
+            Submitted at {formatTimeForDisplay(submission.submittedAt)}
+          </div>
+        )}
       </div>
     );
   };
@@ -113,35 +150,60 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
             <div className={`text-3xl font-mono font-bold ${isTimeRunningOut ? 'text-red-400 animate-pulse' : 'text-white'}`}>
               {minutes}:{seconds.toString().padStart(2, '0')}
             </div>
-            <div className="ml-4 text-gray-300">voting time left</div>
+            <div className="ml-4 text-gray-300">{isPaused ? 'paused' : 'voting time left'}</div>
           </div>
           <h1 className="text-4xl font-bold text-white mb-2">Voting Phase</h1>
           <p className="text-xl text-gray-300">
             Review all submissions and predict each player's role
           </p>
+          {isAnonymous && (
+            <p className="text-sm text-purple-300 mt-2">
+              🎭 Anonymous voting - names are revealed in the results{pseudonym ? `, you are ${pseudonym}` : ''}
+            </p>
+          )}
         </div>
 
+        {isPaused && (
+          <div className="mb-8 bg-yellow-500/20 border border-yellow-500/30 rounded-xl p-4 text-center text-yellow-300 font-medium">
+            ⏸️ The game is paused. Votes are locked and the clock is stopped until the host resumes.
+          </div>
+        )}
+
+        {isEveryoneIn && !isPaused && (
+          <div className="mb-8 bg-green-500/20 border border-green-500/30 rounded-xl p-4 text-center text-green-300 font-medium">
+            ⏩ Everyone has voted! The results are coming up shortly.
+          </div>
+        )}
+
+        {isSpectator && (
+          <div className="mb-8 bg-gray-500/20 border border-gray-500/30 rounded-xl p-4 text-center text-gray-300">
+            👀 You are spectating. You can read every answer but cannot vote, roles are revealed in the results.
+          </div>
+        )}
+
         {/* Progress */}
-        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-bold text-white">Voting Progress</h2>
-            <div className="text-lg font-bold text-white">
-              {votedCount}/{totalPlayersToVote}
+        {!isSpectator && (
+          <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-8 border border-white/20">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-white">Voting Progress</h2>
+              <div className="text-lg font-bold text-white">
+                {votedCount}/{totalPlayersToVote}
+              </div>
             </div>
+            <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
+              <div 
+                className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-500"
+                style={{ width: `${totalPlayersToVote > 0 ? (votedCount / totalPlayersToVote) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-sm text-gray-400 mt-2">
+              {votedCount === totalPlayersToVote ? 
+                '🎉 All votes submitted! Wait for results...' : 
+                'Vote for each player to see their predicted role'
+              }
+            </p>
           </div>
-          <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-500"
-              style={{ width: `${totalPlayersToVote > 0 ? (votedCount / totalPlayersToVote) * 100 : 0}%` }}
-            />
-          </div>
-          <p className="text-sm text-gray-400 mt-2">
-            {votedCount === totalPlayersToVote ? 
-              '🎉 All votes submitted! Wait for results...' : 
-              'Vote for each player to see their predicted role'
-            }
-          </p>
-        </div>
+        )}
 
         {/* View Toggle */}
         <div className="flex justify-center mb-8">
@@ -178,9 +240,9 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
         {/* Content */}
         {viewMode === 'submissions' ? (
           <div className="space-y-8">
-            {[1, 2, 3, 4, 5, 6, 7, 8].map(roundNumber => {
+            {roundConfigs.map(({ roundNumber }) => {
               const roundSubmissions = submissions[roundNumber] || [];
-              const roundConfig = ROUND_CONFIGS.find(r => r.roundNumber === roundNumber);
+              const roundConfig = roundConfigs.find(r => r.roundNumber === roundNumber);
               
               return (
                 <div key={roundNumber} className="bg-white/10 backdrop-blur-sm rounded-2xl p-8 border border-white/20">
@@ -214,11 +276,15 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
                   <div className="p-6 border-b border-white/20">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center">
-                        <div className={`w-4 h-4 rounded-full mr-3 ${player.isConnected ? 'bg-green-400' : 'bg-red-400'}`} />
+                        {!isAnonymous && (
+                          <div className={`w-4 h-4 rounded-full mr-3 ${player.isConnected ? 'bg-green-400' : 'bg-red-400'}`} />
+                        )}
                         <h3 className="text-2xl font-bold text-white">{player.name}</h3>
-                        <span className="ml-3 text-sm text-gray-400">
-                          Player #{gameState.players.findIndex(p => p.id === player.id) + 1}
-                        </span>
+                        {!isAnonymous && (
+                          <span className="ml-3 text-sm text-gray-400">
+                            Player #{gameState.players.findIndex(p => p.id === player.id) + 1}
+                          </span>
+                        )}
                       </div>
                       {currentVote && (
                         <div className="flex items-center">
@@ -226,7 +292,7 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
                           <div className={`px-3 py-1 rounded-full text-sm font-medium ${
                             ROLE_DESCRIPTIONS[currentVote.predictedRole].color.replace('bg-', 'bg-').replace('-500', '-500/20 text-') + currentVote.predictedRole.replace('_', '-')
                           }`}>
-                            {ROLE_DESCRIPTIONS[currentVote.predictedRole].name}
+                            {ROLE_DESCRIPTIONS[currentVote.predictedRole].name} · {currentVote.confidence}%
                           </div>
                         </div>
                       )}
@@ -236,9 +302,9 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
                   {/* Player Submissions */}
                   <div className="p-6">
                     <div className="grid gap-4 mb-6">
-                      {[1, 2, 3, 4, 5, 6, 7, 8].map(roundNumber => {
+                      {roundConfigs.map(({ roundNumber }) => {
                         const submission = playerSubmissions[roundNumber];
-                        const roundConfig = ROUND_CONFIGS.find(r => r.roundNumber === roundNumber);
+                        const roundConfig = roundConfigs.find(r => r.roundNumber === roundNumber);
                         
                         return (
                           <div key={roundNumber} className="bg-white/5 rounded-xl p-4">
@@ -263,44 +329,63 @@ export default function VotingComponent({ gameState, submissions, timeLeft, play
                     </div>
 
                     {/* Role Voting */}
-                    <div>
-                      <h4 className="text-lg font-semibold text-white mb-4">
-                        What role do you think {player.name} is?
-                      </h4>
-                      <div className="grid grid-cols-2 gap-3">
-                        {(['human', 'ai_user', 'troll'] as PlayerRole[]).map(role => {
-                          const roleInfo = ROLE_DESCRIPTIONS[role];
-                          const isSelected = currentVote?.predictedRole === role;
+                    {!isSpectator && (
+                      <div>
+                        <h4 className="text-lg font-semibold text-white mb-4">
+                          What role do you think {player.name} is?
+                        </h4>
+                        {/* Confidence is sent with the next role pick, pick again to update an existing vote */}
+                        <label className="flex items-center gap-4 mb-4 text-sm text-gray-300">
+                          <span className="whitespace-nowrap">How sure are you?</span>
+                          <input
+                            type="range"
+                            min={VOTE_CONFIDENCE.MIN}
+                            max={VOTE_CONFIDENCE.MAX}
+                            step={VOTE_CONFIDENCE.STEP}
+                            value={getConfidence(player.id)}
+                            onChange={(e) => setConfidences(prev => ({ ...prev, [player.id]: parseInt(e.target.value) }))}
+                            className="flex-1 accent-purple-500"
+                          />
+                          <span className="w-12 text-right font-bold text-white">{getConfidence(player.id)}%</span>
+                        </label>
+                        <p className="text-xs text-gray-400 mb-4">
+                          {getConfidence(player.id) === VOTE_CONFIDENCE.MIN ? 'Just guessing' : getConfidence(player.id) === VOTE_CONFIDENCE.MAX ? 'Certain - a wrong guess costs points' : 'Confident wrong guesses cost points'}
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                          {(['human', 'ai_user', 'troll'] as PlayerRole[]).map(role => {
+                            const roleInfo = ROLE_DESCRIPTIONS[role];
+                            const isSelected = currentVote?.predictedRole === role;
                           
-                          return (
-                            <button
-                              key={role}
-                              onClick={() => handleVote(player.id, role)}
-                              disabled={isSubmitting}
-                              className={`p-4 rounded-xl border-2 transition-all duration-200 text-left ${
-                                isSelected
-                                  ? `${roleInfo.color} border-white/50 ring-2 ring-white/30`
-                                  : 'bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/40'
-                              } ${isSubmitting ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}`}
-                            >
-                              <div className="flex items-center justify-between">
-                                <div>
-                                  <div className="text-white font-semibold">{roleInfo.name}</div>
-                                  <div className="text-xs text-gray-400 mt-1">
-                                    {role === 'human' && '👤 Pure human behavior'}
-                                    {role === 'ai_user' && '🤖 Pure AI responses'}
-                                    {role === 'troll' && '👹 Causing chaos'}
+                            return (
+                              <button
+                                key={role}
+                                onClick={() => handleVote(player.id, role)}
+                                disabled={isSubmitting || isPaused}
+                                className={`p-4 rounded-xl border-2 transition-all duration-200 text-left ${
+                                  isSelected
+                                    ? `${roleInfo.color} border-white/50 ring-2 ring-white/30`
+                                    : 'bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/40'
+                                } ${isSubmitting || isPaused ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}`}
+                              >
+                                <div className="flex items-center justify-between">
+                                  <div>
+                                    <div className="text-white font-semibold">{roleInfo.name}</div>
+                                    <div className="text-xs text-gray-400 mt-1">
+                                      {role === 'human' && '👤 Pure human behavior'}
+                                      {role === 'ai_user' && '🤖 Pure AI responses'}
+                                      {role === 'troll' && '👹 Causing chaos'}
+                                    </div>
                                   </div>
+                                  {isSelected && (
+                                    <div className="text-white text-xl">✓</div>
+                                  )}
                                 </div>
-                                {isSelected && (
-                                  <div className="text-white text-xl">✓</div>
-                                )}
-                              </div>
-                            </button>
-                          );
-                        })}
+                              </button>
+                            );
+                          })}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               );
@@ -1,12 +1,18 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { GameEvent, GameState, Player, PlayerRole } from '@/types/game';
+import { AnonymousVotingBoard, GameEvent, GameState, Player, PlayerRole } from '@/types/game';
 import { OfflineGameManager } from '@/lib/offline-game-manager';
 import { networkRecovery } from '@/lib/network-recovery';
+import { getCurrentPlayerId } from '@/lib/player-cookie';
 
 interface GameEventData {
   gameState: Omit<GameState, 'players'> & { players: Omit<Player, 'role'>[] };
   playerRole: PlayerRole | null;
   submissions?: Record<number, any[]>;
+  anonymousBoard?: AnonymousVotingBoard; // replaces submissions while anonymous voting is on
+  pseudonym?: string | null; // this player's own pseudonym on the anonymous board
+  botPlayerIds?: string[]; // host only
+  isSpectator?: boolean; // joined after the start, no role, submissions or votes
+  everyoneIn?: boolean; // everyone answered or voted, the phase is on its short countdown
   results?: any;
   timeLeft?: number;
 }
@@ -432,6 +438,136 @@ export function useGameEvents() {
         }
       });
 
+      eventSource.addEventListener('host_transferred', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            const { players, adminPlayer } = prevData.gameState;
+            const nextHost = players.find(p => p.id === data.toPlayerId);
+            if (!nextHost) return prevData;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                adminPlayer: { ...nextHost, isAdmin: true } as Player,
+                players: players
+                  .filter(p => p.id !== data.toPlayerId)
+                  .concat(adminPlayer ? [{ ...adminPlayer, isAdmin: false }] : []),
+              },
+            };
+          });
+
+          // The new host needs its own host token before admin routes will accept it
+          if (data.toPlayerId === getCurrentPlayerId()) {
+            fetch('/api/host', { method: 'POST' }).catch(error => {
+              console.error('Failed to claim host token:', error);
+            });
+          }
+        } catch (error) {
+          console.error('Error parsing host_transferred event:', error);
+        }
+      });
+
+      eventSource.addEventListener('prompt_pack_selected', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                promptPackId: data.promptPackId,
+                roundConfigs: data.roundConfigs,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing prompt_pack_selected event:', error);
+        }
+      });
+
+      eventSource.addEventListener('role_settings_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                roleSettings: data.roleSettings,
+                minPlayers: data.minPlayers,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing role_settings_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('scoring_preset_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                scoringPreset: data.scoringPreset,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing scoring_preset_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('game_mode_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                gameMode: data.gameMode,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing game_mode_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('player_eliminated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          // A tied or empty vote eliminates nobody
+          if (!data.elimination) return;
+          const { playerId, roundNumber } = data.elimination;
+          setGameData(prevData => {
+            if (!prevData) return null;
+            const markEliminated = <T extends { id: string }>(player: T) =>
+              player.id === playerId ? { ...player, eliminatedInRound: roundNumber } : player;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                players: prevData.gameState.players.map(markEliminated),
+                adminPlayer: prevData.gameState.adminPlayer ? markEliminated(prevData.gameState.adminPlayer) : null,
+                eliminations: [...(prevData.gameState.eliminations || []), data.elimination],
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing player_eliminated event:', error);
+        }
+      });
+
       eventSource.addEventListener('player_joined', (event) => {
         try {
           const data = JSON.parse(event.data);
@@ -450,6 +586,24 @@ export function useGameEvents() {
         }
       });
 
+      eventSource.addEventListener('spectator_joined', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                spectators: [...(prevData.gameState.spectators || []), data.spectator],
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing spectator_joined event:', error);
+        }
+      });
+
       eventSource.addEventListener('player_left', (event) => {
         try {
           const data = JSON.parse(event.data);
@@ -479,9 +633,13 @@ export function useGameEvents() {
                 ...prevData.gameState,
                 currentPhase: data.phase,
                 phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null,
+                resultsReveal: data.resultsReveal || prevData.gameState.resultsReveal,
+                pause: null, // a new phase always starts unpaused
               },
+              everyoneIn: false,
               // Update submissions if provided (for voting phase)
               submissions: data.submissions || prevData.submissions,
+              anonymousBoard: data.anonymousBoard || prevData.anonymousBoard,
               // Update results if provided (for results phase)
               results: data.results || prevData.results,
             };
@@ -494,16 +652,198 @@ export function useGameEvents() {
       eventSource.addEventListener('game_started', (event) => {
         try {
           const data = JSON.parse(event.data);
+          // Roles follow as private role_assigned events
           setGameData(prevData => ({
             ...prevData,
             gameState: data.gameState,
-            playerRole: data.roleAssignments?.[getCookie('player_id')] || null,
+            playerRole: null,
           }));
         } catch (error) {
           console.error('Error parsing game_started event:', error);
         }
       });
 
+      eventSource.addEventListener('role_assigned', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          if (data.playerId !== getCurrentPlayerId()) return;
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              playerRole: data.role,
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing role_assigned event:', error);
+        }
+      });
+
+      eventSource.addEventListener('pseudonym_assigned', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          if (data.playerId !== getCurrentPlayerId()) return;
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              pseudonym: data.pseudonym,
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing pseudonym_assigned event:', error);
+        }
+      });
+
+      eventSource.addEventListener('anonymous_voting_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                anonymousVoting: data.anonymousVoting,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing anonymous_voting_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('auto_advance_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                autoAdvance: data.autoAdvance,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing auto_advance_updated event:', error);
+        }
+      });
+
+      // Auto-advance rooms cut the phase short once everyone is done
+      eventSource.addEventListener('everyone_in', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null,
+              },
+              timeLeft: data.countdown,
+              everyoneIn: true,
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing everyone_in event:', error);
+        }
+      });
+
+      eventSource.addEventListener('assistant_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                assistantEnabled: data.assistantEnabled,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing assistant_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('bots_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              botPlayerIds: data.botPlayerIds,
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing bots_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('results_reveal_updated', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                resultsReveal: data.resultsReveal,
+              },
+              // Roles, scores and how each answer was typed arrive as the host reveals them
+              results: data.results || prevData.results,
+              submissions: data.submissions || prevData.submissions,
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing results_reveal_updated event:', error);
+        }
+      });
+
+      eventSource.addEventListener('game_paused', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                pause: data.pause,
+                phaseEndTime: null,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing game_paused event:', error);
+        }
+      });
+
+      eventSource.addEventListener('game_resumed', (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          setGameData(prevData => {
+            if (!prevData) return null;
+            return {
+              ...prevData,
+              gameState: {
+                ...prevData.gameState,
+                pause: null,
+                phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null,
+              },
+            };
+          });
+        } catch (error) {
+          console.error('Error parsing game_resumed event:', error);
+        }
+      });
+
       eventSource.addEventListener('submission_received', (event) => {
         // Could show real-time submission count updates
         console.log('Submission received');
@@ -732,7 +1072,7 @@ export function useGameEvents() {
           const result = await response.json();
           if (result.success) {
             // Add player role from roleAssignments if available
-            const playerId = getCookie('player_id');
+            const playerId = getCurrentPlayerId();
             const playerRole = result.data.playerRole || result.data.roleAssignments?.[playerId] || 'troll'; // Force troll for testing
             
             console.log('API GAME STATE: Player ID:', playerId, 'Role:', playerRole);
@@ -784,16 +1124,3 @@ export function useGameEvents() {
     }
   };
 }
-
-// Helper function to get cookie value
-function getCookie(name: string): string | null {
-  if (typeof document === 'undefined') return null;
-  
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) {
-    const cookieValue = parts.pop()?.split(';').shift();
-    return cookieValue || null;
-  }
-  return null;
-}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { GameResults, PublicGameState } from '@/types/game';
+import { getRoundNumberFromPhase } from '@/lib/game-config';
+
+export interface ScreenData {
+  gameState: PublicGameState;
+  submissionCount: number; // answers in for the current round
+  voteCount: number;
+  results?: GameResults;
+}
+
+// Read-only event stream for the presenter screen, it joins no game so it needs no player cookie.
+// The room comes from the page's own ?room= param, falling back to the room cookie.
+export function useScreenEvents() {
+  const [screenData, setScreenData] = useState<ScreenData | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const roomId = new URLSearchParams(window.location.search).get('room');
+    const query = new URLSearchParams({ screen: '1', ...(roomId && { room: roomId }) });
+    const eventSource = new EventSource(`/api/events?${query}`);
+
+    // Apply an event to the current snapshot, events before the first game_state are dropped
+    const listen = (type: string, apply: (prev: ScreenData, data: any) => ScreenData) => {
+      eventSource.addEventListener(type, (event) => {
+        try {
+          const data = JSON.parse((event as MessageEvent).data);
+          setScreenData(prev => (prev ? apply(prev, data) : null));
+        } catch (error) {
+          console.error(`Error parsing ${type} event on screen:`, error);
+        }
+      });
+    };
+
+    eventSource.onopen = () => {
+      setIsConnected(true);
+      setError(null);
+      console.log('Presenter screen connected to game events');
+    };
+
+    // The browser reconnects on its own and the fresh game_state rebuilds the screen
+    eventSource.onerror = () => {
+      setIsConnected(false);
+      setError('Connection lost, reconnecting...');
+    };
+
+    eventSource.addEventListener('game_state', (event) => {
+      try {
+        const data = JSON.parse((event as MessageEvent).data);
+        setScreenData({
+          gameState: data.gameState,
+          submissionCount: data.submissionCount || 0,
+          voteCount: data.voteCount || 0,
+          results: data.results,
+        });
+      } catch (error) {
+        console.error('Error parsing game_state event on screen:', error);
+      }
+    });
+
+    listen('game_started', (prev, data) => ({ ...prev, gameState: data.gameState, submissionCount: 0, voteCount: 0 }));
+
+    listen('phase_changed', (prev, data) => ({
+      ...prev,
+      gameState: {
+        ...prev.gameState,
+        currentPhase: data.phase,
+        phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null,
+        resultsReveal: data.resultsReveal || prev.gameState.resultsReveal,
+        pause: null,
+      },
+      // Every round starts from zero answers
+      submissionCount: getRoundNumberFromPhase(data.phase) !== null ? 0 : prev.submissionCount,
+      results: data.results || prev.results,
+    }));
+
+    listen('timer_update', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null },
+    }));
+
+    listen('everyone_in', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null },
+    }));
+
+    // The host steps the results reveal, the screen follows along
+    listen('results_reveal_updated', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, resultsReveal: data.resultsReveal },
+      results: data.results || prev.results,
+    }));
+
+    listen('game_paused', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, pause: data.pause, phaseEndTime: null },
+    }));
+
+    listen('game_resumed', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, pause: null, phaseEndTime: data.phaseEndTime ? new Date(data.phaseEndTime) : null },
+    }));
+
+    listen('submission_received', (prev, data) => ({ ...prev, submissionCount: data.submissionCount }));
+    listen('vote_received', (prev, data) => ({ ...prev, voteCount: data.voteCount }));
+
+    listen('player_joined', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, players: [...prev.gameState.players, data.player] },
+    }));
+
+    listen('player_left', (prev, data) => ({
+      ...prev,
+      gameState: { ...prev.gameState, players: prev.gameState.players.filter(p => p.id !== data.player.id) },
+    }));
+
+    listen('admin_joined', (prev, data) => ({ ...prev, gameState: { ...prev.gameState, adminPlayer: data.player } }));
+    listen('admin_left', (prev) => ({ ...prev, gameState: { ...prev.gameState, adminPlayer: null } }));
+
+    listen('player_eliminated', (prev, data) => {
+      // A tied or empty vote eliminates nobody
+      if (!data.elimination) return prev;
+      const { playerId, roundNumber } = data.elimination;
+      const markEliminated = <T extends { id: string }>(player: T) =>
+        player.id === playerId ? { ...player, eliminatedInRound: roundNumber } : player;
+      return {
+        ...prev,
+        gameState: {
+          ...prev.gameState,
+          players: prev.gameState.players.map(markEliminated),
+          adminPlayer: prev.gameState.adminPlayer ? markEliminated(prev.gameState.adminPlayer) : null,
+          eliminations: [...(prev.gameState.eliminations || []), data.elimination],
+        },
+      };
+    });
+
+    // A reset sends everyone back to a lobby with only the host left, running out of players just ends the game
+    listen('game_ended', (prev, data) => data.reason === 'reset'
+      ? {
+          gameState: { ...prev.gameState, currentPhase: 'lobby', phaseEndTime: null, players: [], adminPlayer: data.adminPlayer || null, spectators: [], eliminations: [] },
+          submissionCount: 0,
+          voteCount: 0,
+        }
+      : { ...prev, gameState: { ...prev.gameState, currentPhase: 'finished', phaseEndTime: null } });
+
+    eventSource.addEventListener('game_destroyed', () => {
+      eventSource.close();
+      setIsConnected(false);
+      setScreenData(null);
+      setError('This game has ended.');
+    });
+
+    return () => eventSource.close();
+  }, []);
+
+  return { screenData, isConnected, error };
+}
@@ -0,0 +1,61 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { ReplayEdit } from '@/types/game';
+import { MAX_REPLAY_EDITS, diffText, getRecordingBudget, packedEditSize } from '@/lib/typing-replay';
+
+interface ReplayRecording {
+  openedAt: number;
+  recordedText: string; // the answer as the recorded edits leave it
+  edits: ReplayEdit[];
+  size: number; // packed size of the edits so far, the server drops replays over its budget
+  isFull: boolean;
+  pasteNext: boolean;
+}
+
+function freshRecording(): ReplayRecording {
+  return { openedAt: Date.now(), recordedText: '', edits: [], size: 0, isFull: false, pasteNext: false };
+}
+
+// Records every change to the answer box so the results can play it back, restarting whenever the round changes
+export function useTypingReplay(roundNumber: number, maxLength: number) {
+  const recording = useRef<ReplayRecording>(freshRecording());
+
+  useEffect(() => {
+    recording.current = freshRecording();
+  }, [roundNumber]);
+
+  const recordChange = useCallback((next: string) => {
+    const r = recording.current;
+    const pasted = r.pasteNext;
+    r.pasteNext = false;
+
+    // One edit is kept back for finish(), past the budget the replay jumps straight to the answer
+    if (r.isFull) return;
+
+    const diff = diffText(r.recordedText, next);
+    if (!diff) return;
+    const edit: ReplayEdit = { t: Date.now() - r.openedAt, ...diff, ...(pasted && { paste: true }) };
+    const size = packedEditSize(edit, r.edits.length > 0 ? r.edits[r.edits.length - 1].t : 0);
+    if (r.edits.length >= MAX_REPLAY_EDITS - 1 || r.size + size > getRecordingBudget(maxLength)) {
+      r.isFull = true;
+      return;
+    }
+
+    r.edits.push(edit);
+    r.size += size;
+    r.recordedText = next;
+  }, [maxLength]);
+
+  // The next change comes from the clipboard or an assistant draft
+  const markPaste = useCallback(() => {
+    recording.current.pasteNext = true;
+  }, []);
+
+  // Edits to send with the submission, closed off so they end exactly on the submitted answer
+  const finish = useCallback((content: string): ReplayEdit[] => {
+    const r = recording.current;
+    const closing = diffText(r.recordedText, content);
+    return closing ? [...r.edits, { t: Date.now() - r.openedAt, ...closing }] : [...r.edits];
+  }, []);
+
+  return { recordChange, markPaste, finish };
+}
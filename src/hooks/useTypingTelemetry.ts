@@ -0,0 +1,85 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { TypingTelemetry } from '@/types/game';
+import { PAUSE_THRESHOLD_MS } from '@/lib/typing-telemetry';
+
+interface TelemetryCounters {
+  openedAt: number;
+  firstKeystrokeAt: number | null;
+  lastKeystrokeAt: number | null;
+  keystrokes: number;
+  intervalTotal: number;
+  intervalCount: number;
+  pasteCount: number;
+  pastedChars: number;
+  edits: number;
+}
+
+function freshCounters(): TelemetryCounters {
+  return {
+    openedAt: Date.now(),
+    firstKeystrokeAt: null,
+    lastKeystrokeAt: null,
+    keystrokes: 0,
+    intervalTotal: 0,
+    intervalCount: 0,
+    pasteCount: 0,
+    pastedChars: 0,
+    edits: 0,
+  };
+}
+
+// Records how an answer gets written, restarting whenever the round changes
+export function useTypingTelemetry(roundNumber: number) {
+  const counters = useRef<TelemetryCounters>(freshCounters());
+
+  useEffect(() => {
+    counters.current = freshCounters();
+  }, [roundNumber]);
+
+  const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const c = counters.current;
+    const now = Date.now();
+    const isEdit = e.key === 'Backspace' || e.key === 'Delete';
+    const isCharacter = e.key.length === 1 && !e.ctrlKey && !e.metaKey;
+    if (!isEdit && !isCharacter) return;
+
+    if (c.firstKeystrokeAt === null) {
+      c.firstKeystrokeAt = now;
+    }
+    if (c.lastKeystrokeAt !== null && now - c.lastKeystrokeAt <= PAUSE_THRESHOLD_MS) {
+      c.intervalTotal += now - c.lastKeystrokeAt;
+      c.intervalCount++;
+    }
+    c.lastKeystrokeAt = now;
+    c.keystrokes++;
+
+    // Typing over a selection replaces text, which is an edit too
+    const target = e.currentTarget;
+    if (isEdit || target.selectionStart !== target.selectionEnd) {
+      c.edits++;
+    }
+  }, []);
+
+  const recordPaste = useCallback((text: string) => {
+    counters.current.pasteCount++;
+    counters.current.pastedChars += text.length;
+  }, []);
+
+  const onPaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    recordPaste(e.clipboardData.getData('text'));
+  }, [recordPaste]);
+
+  const snapshot = useCallback((): TypingTelemetry => {
+    const c = counters.current;
+    return {
+      timeToFirstKeystrokeMs: c.firstKeystrokeAt !== null ? c.firstKeystrokeAt - c.openedAt : null,
+      keystrokes: c.keystrokes,
+      averageKeyIntervalMs: c.intervalCount > 0 ? Math.round(c.intervalTotal / c.intervalCount) : null,
+      pasteCount: c.pasteCount,
+      pastedChars: c.pastedChars,
+      edits: c.edits,
+    };
+  }, []);
+
+  return { onKeyDown, onPaste, recordPaste, snapshot };
+}
@@ -0,0 +1,63 @@
+// Bots - seat fillers that answer from a bundled corpus and vote from what they read, fully offline
+import { PlayerRole, RoundConfig } from '@/types/game';
+import { VOTE_CONFIDENCE } from './game-config';
+import { scoreAiLikelihood } from './stylometry';
+import botCorpus from './bot-corpus.json';
+
+interface CorpusEntry {
+  human: string[];
+  ai: string[];
+}
+
+const CORPUS = botCorpus as { fallback: CorpusEntry; rounds: Record<string, CorpusEntry> };
+
+// Ordinary names so bots don't stand out in the player list
+const BOT_NAMES = [
+  'Deniz', 'Ece', 'Mert', 'Zeynep', 'Can', 'Elif', 'Burak', 'Selin', 'Emre', 'Ayşe',
+  'Kaan', 'Defne', 'Onur', 'İrem', 'Berk', 'Naz', 'Cem', 'Ada', 'Umut', 'Ceren',
+];
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+export function pickBotName(takenNames: string[]): string | null {
+  const taken = new Set(takenNames.map(name => name.toLowerCase()));
+  const available = BOT_NAMES.filter(name => !taken.has(name.toLowerCase()));
+  return available.length > 0 ? pick(available) : null;
+}
+
+// AI users paste AI text, humans write their own, trolls switch between the two to confuse everyone
+export function pickBotAnswer(roundConfig: RoundConfig, role: PlayerRole): string {
+  const entry = CORPUS.rounds[roundConfig.title] || CORPUS.fallback;
+  const writesLikeAi = role === 'ai_user' || (role === 'troll' && Math.random() < 0.5);
+  return pick(writesLikeAi ? entry.ai : entry.human).slice(0, roundConfig.maxLength);
+}
+
+// Somewhere in the first half of the phase, so bots neither answer instantly nor last
+export function pickBotDelay(phaseMs: number): number {
+  return Math.round(phaseMs * (0.1 + Math.random() * 0.4));
+}
+
+// A bot reads a player's answers like the machine judge does, with some noise so bots disagree with each other
+export function guessRole(text: string): { predictedRole: PlayerRole; confidence: number } {
+  const { aiLikelihood } = scoreAiLikelihood(text);
+  const noisy = Math.max(0, Math.min(100, aiLikelihood + (Math.random() - 0.5) * 40));
+
+  let predictedRole: PlayerRole = noisy >= 55 ? 'ai_user' : 'human';
+  if (Math.random() < 0.15) {
+    predictedRole = 'troll';
+  }
+
+  const sureness = VOTE_CONFIDENCE.MIN + Math.abs(noisy - 50);
+  const confidence = Math.round(sureness / VOTE_CONFIDENCE.STEP) * VOTE_CONFIDENCE.STEP;
+  return { predictedRole, confidence: Math.max(VOTE_CONFIDENCE.MIN, Math.min(VOTE_CONFIDENCE.MAX, confidence)) };
+}
+
+// Elimination votes go to whoever reads as the most AI-like
+export function pickEliminationTarget(texts: Record<string, string>): string | null {
+  const ranked = Object.entries(texts)
+    .map(([playerId, text]) => ({ playerId, score: scoreAiLikelihood(text).aiLikelihood + Math.random() * 20 }))
+    .sort((a, b) => b.score - a.score);
+  return ranked.length > 0 ? ranked[0].playerId : null;
+}
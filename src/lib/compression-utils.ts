@@ -1,4 +1,6 @@
 // Compression and bandwidth optimization utilities
+import { CompressedReplay, ReplayEdit } from '@/types/game';
+
 export interface CompressionOptions {
   minifyJson?: boolean;
   removeNulls?: boolean;
@@ -175,6 +177,27 @@ export class CompressionUtils {
     };
   }
 
+  // Pack typing replay edits into tuples with times relative to the previous edit
+  static compressReplay(edits: ReplayEdit[]): CompressedReplay {
+    let lastT = 0;
+    return {
+      edits: edits.map(edit => {
+        const dt = edit.t - lastT;
+        lastT = edit.t;
+        return edit.paste ? [dt, edit.at, edit.del, edit.ins, 1] : [dt, edit.at, edit.del, edit.ins];
+      })
+    };
+  }
+
+  // Unpack a compressed typing replay back into edits with absolute times
+  static decompressReplay(replay: CompressedReplay): ReplayEdit[] {
+    let t = 0;
+    return replay.edits.map(([dt, at, del, ins, pasted]) => {
+      t += dt;
+      return pasted ? { t, at, del, ins, paste: true } : { t, at, del, ins };
+    });
+  }
+
   // Calculate compression ratio
   static getCompressionRatio(original: any, compressed: any): number {
     const originalSize = JSON.stringify(original).length;
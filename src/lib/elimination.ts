@@ -0,0 +1,41 @@
+// Elimination mode - vote tallies and win conditions for the vote after every round
+import { Elimination, EliminationOutcome, Player, Vote } from '@/types/game';
+
+// The player with the most votes this round, nobody leaves on a tie or when no one voted
+export function tallyEliminationVotes(votes: Vote[], roundNumber: number, candidates: Player[]): { target: Player | null; voteCount: number } {
+  const counts = new Map<string, number>();
+  votes
+    .filter(vote => vote.roundNumber === roundNumber)
+    .forEach(vote => {
+      counts.set(vote.targetPlayerId, (counts.get(vote.targetPlayerId) || 0) + 1);
+    });
+
+  const ranked = candidates
+    .map(player => ({ player, count: counts.get(player.id) || 0 }))
+    .sort((a, b) => b.count - a.count);
+  const [top, runnerUp] = ranked;
+
+  if (!top || top.count === 0 || (runnerUp && runnerUp.count === top.count)) {
+    return { target: null, voteCount: top ? top.count : 0 };
+  }
+  return { target: top.player, voteCount: top.count };
+}
+
+// Humans win once every ai_user is out, ai_users win when they outnumber the remaining humans or survive every round
+export function getEliminationOutcome(participants: Player[], eliminations: Elimination[], roundsExhausted: boolean): EliminationOutcome | null {
+  const remaining = participants.filter(player => !player.eliminatedInRound);
+  const dealtAiUsers = participants.some(player => player.role === 'ai_user');
+  const aiUsersLeft = remaining.filter(player => player.role === 'ai_user').length;
+  const humansLeft = remaining.filter(player => player.role === 'human').length;
+
+  if (dealtAiUsers && aiUsersLeft === 0) {
+    return { winner: 'humans', reason: 'ai_users_eliminated', eliminations };
+  }
+  if (aiUsersLeft > humansLeft) {
+    return { winner: 'ai_users', reason: 'humans_outnumbered', eliminations };
+  }
+  if (roundsExhausted) {
+    return { winner: aiUsersLeft > 0 ? 'ai_users' : 'humans', reason: 'rounds_exhausted', eliminations };
+  }
+  return null;
+}
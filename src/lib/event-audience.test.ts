@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { GameEvent } from '@/types/game';
+import { HOST_ONLY, canReceiveEvent, toPlayer, toScreenEventData } from './event-audience';
+
+function event(type: GameEvent['type'], data: any, audience?: GameEvent['audience']): GameEvent {
+  return { type, data, timestamp: new Date(), audience };
+}
+
+describe('canReceiveEvent', () => {
+  const player = { playerId: 'p1', isHost: false };
+  const host = { playerId: 'p2', isHost: true };
+
+  it('delivers broadcasts to everyone', () => {
+    expect(canReceiveEvent(event('vote_received', {}), player)).toBe(true);
+  });
+
+  it('keeps private events to their player and host events to the host', () => {
+    const role = event('role_assigned', { playerId: 'p1', role: 'troll' }, toPlayer('p1'));
+    const bots = event('bots_updated', { botPlayerIds: [] }, HOST_ONLY);
+
+    expect(canReceiveEvent(role, player)).toBe(true);
+    expect(canReceiveEvent(role, host)).toBe(false);
+    expect(canReceiveEvent(bots, player)).toBe(false);
+    expect(canReceiveEvent(bots, host)).toBe(true);
+  });
+});
+
+describe('toScreenEventData', () => {
+  it('leaves the answers out of phase changes', () => {
+    const phaseChanged = event('phase_changed', {
+      phase: 'voting',
+      phaseEndTime: null,
+      submissions: { 1: [{ id: 's1', content: 'The dryer eats them' }] },
+      anonymousBoard: { pseudonyms: [] },
+    });
+
+    expect(toScreenEventData(phaseChanged)).toEqual({ phase: 'voting', phaseEndTime: null, resultsReveal: undefined, results: undefined });
+  });
+
+  it('leaves the typing data out of the results reveal', () => {
+    const revealed = event('results_reveal_updated', { resultsReveal: { stage: 'players', revealedPlayerIds: [] }, results: null, submissions: {} });
+
+    expect(toScreenEventData(revealed)).toEqual({ resultsReveal: { stage: 'players', revealedPlayerIds: [] }, results: null });
+  });
+
+  it('drops events the screen does not draw', () => {
+    expect(toScreenEventData(event('cheater_alert', { playerId: 'p1' }))).toBeNull();
+    expect(toScreenEventData(event('vote_received', { voteCount: 3 }))).toEqual({ voteCount: 3 });
+  });
+});
@@ -0,0 +1,61 @@
+// Event Audience - who each game event is delivered to on the SSE stream
+import { EventAudience, GameEvent } from '@/types/game';
+
+export const BROADCAST: EventAudience = { type: 'broadcast' };
+export const HOST_ONLY: EventAudience = { type: 'host' };
+
+export function toPlayer(playerId: string): EventAudience {
+  return { type: 'player', playerId };
+}
+
+// The connection on the receiving end, host status is checked per event since it can move between players
+export interface EventViewer {
+  playerId: string;
+  isHost: boolean;
+}
+
+export function canReceiveEvent(event: GameEvent, viewer: EventViewer): boolean {
+  const audience = event.audience || BROADCAST;
+
+  switch (audience.type) {
+    case 'broadcast':
+      return true;
+    case 'player':
+      return audience.playerId === viewer.playerId;
+    case 'host':
+      return viewer.isHost;
+    default:
+      return false;
+  }
+}
+
+// The presenter screen connects without a cookie, so it only gets what getScreenView would show:
+// progress, timers and the results as far as they are revealed, never an answer
+export function toScreenEventData(event: GameEvent): Record<string, any> | null {
+  switch (event.type) {
+    case 'phase_changed': {
+      const { phase, phaseEndTime, resultsReveal, results } = event.data;
+      return { phase, phaseEndTime, resultsReveal, results };
+    }
+    case 'results_reveal_updated': {
+      const { resultsReveal, results } = event.data;
+      return { resultsReveal, results };
+    }
+    case 'game_started':
+    case 'game_ended':
+    case 'game_paused':
+    case 'game_resumed':
+    case 'timer_update':
+    case 'everyone_in':
+    case 'submission_received':
+    case 'vote_received':
+    case 'player_joined':
+    case 'player_left':
+    case 'admin_joined':
+    case 'admin_left':
+    case 'player_eliminated':
+      return event.data;
+    default:
+      return null;
+  }
+}
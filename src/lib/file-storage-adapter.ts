@@ -0,0 +1,64 @@
+// File Storage Adapter - one JSON file per record, grouped in a directory per collection
+import fs from 'fs';
+import path from 'path';
+import { StorageAdapter, StorageCollection, serializeValue, deserializeValue } from './storage-adapter';
+
+export class FileStorageAdapter implements StorageAdapter {
+  readonly kind = 'file' as const;
+  private baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = baseDir;
+    fs.mkdirSync(baseDir, { recursive: true });
+  }
+
+  private getCollectionDir(collection: StorageCollection): string {
+    const dir = path.join(this.baseDir, collection);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  }
+
+  private getFilePath(collection: StorageCollection, key: string): string {
+    return path.join(this.getCollectionDir(collection), `${encodeURIComponent(key)}.json`);
+  }
+
+  get<T>(collection: StorageCollection, key: string): T | null {
+    const filePath = this.getFilePath(collection, key);
+    if (!fs.existsSync(filePath)) return null;
+
+    try {
+      return deserializeValue<T>(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`Failed to read ${collection}/${key} from file storage:`, error);
+      return null;
+    }
+  }
+
+  set<T>(collection: StorageCollection, key: string, value: T): void {
+    const filePath = this.getFilePath(collection, key);
+    // Write to a temp file first so a crash mid-write never leaves a truncated record
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, serializeValue(value), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  delete(collection: StorageCollection, key: string): void {
+    fs.rmSync(this.getFilePath(collection, key), { force: true });
+  }
+
+  list<T>(collection: StorageCollection): Array<{ key: string; value: T }> {
+    const dir = this.getCollectionDir(collection);
+    const records: Array<{ key: string; value: T }> = [];
+
+    for (const fileName of fs.readdirSync(dir)) {
+      if (!fileName.endsWith('.json')) continue;
+
+      const key = decodeURIComponent(fileName.slice(0, -'.json'.length));
+      const value = this.get<T>(collection, key);
+      if (value !== null) {
+        records.push({ key, value });
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ROLE_SETTINGS, getMinPlayersForRoleSettings, getRoleDistribution, validateRoleSettings } from './game-config';
+
+describe('getRoleDistribution', () => {
+  it('keeps the classic split for 8 players', () => {
+    expect(getRoleDistribution(8)).toEqual({ human: 3, ai_user: 3, troll: 2 });
+  });
+
+  it('hands leftover players to the largest remainders', () => {
+    expect(getRoleDistribution(12, DEFAULT_ROLE_SETTINGS)).toEqual({ human: 5, ai_user: 4, troll: 3 });
+  });
+
+  it('gives every role with a weight at least one seat', () => {
+    const settings = { mode: 'ratio' as const, values: { human: 10, ai_user: 10, troll: 1 } };
+
+    const distribution = getRoleDistribution(8, settings);
+
+    expect(distribution.troll).toBe(1);
+    expect(distribution.human + distribution.ai_user + distribution.troll).toBe(8);
+  });
+
+  it('seats a small role in the smallest lobby for two roles', () => {
+    const settings = { mode: 'ratio' as const, values: { human: 9, ai_user: 0, troll: 1 } };
+
+    expect(getMinPlayersForRoleSettings(settings)).toBe(5);
+    expect(getRoleDistribution(5, settings)).toEqual({ human: 4, ai_user: 0, troll: 1 });
+  });
+
+  it('leaves roles with no weight out', () => {
+    const settings = { mode: 'ratio' as const, values: { human: 1, ai_user: 1, troll: 0 } };
+
+    expect(getRoleDistribution(6, settings)).toEqual({ human: 3, ai_user: 3, troll: 0 });
+  });
+
+  it('uses exact counts as they are', () => {
+    const settings = { mode: 'exact' as const, values: { human: 2, ai_user: 1, troll: 0 } };
+
+    expect(getRoleDistribution(3, settings)).toEqual({ human: 2, ai_user: 1, troll: 0 });
+    expect(() => getRoleDistribution(4, settings)).toThrow('Role counts add up to 3 but 4 players are in the game');
+  });
+
+  it('rejects lobbies that are too small or too big', () => {
+    expect(() => getRoleDistribution(7)).toThrow('Minimum 8 players required');
+    expect(() => getRoleDistribution(17)).toThrow('Maximum 16 players allowed');
+  });
+});
+
+describe('validateRoleSettings', () => {
+  it('fills in missing roles with 0', () => {
+    expect(validateRoleSettings({ mode: 'ratio', values: { human: 2, ai_user: 1 } })).toEqual({
+      settings: { mode: 'ratio', values: { human: 2, ai_user: 1, troll: 0 } },
+      errors: [],
+    });
+  });
+
+  it('rejects settings without any role', () => {
+    expect(validateRoleSettings({ mode: 'ratio', values: { human: 0, ai_user: 0, troll: 0 } }).errors)
+      .toEqual(['At least one role needs a value above 0']);
+  });
+
+  it('rejects exact counts above the player limit', () => {
+    expect(validateRoleSettings({ mode: 'exact', values: { human: 10, ai_user: 5, troll: 2 } }).errors)
+      .toEqual(['Role counts add up to 17, the maximum is 16 players']);
+  });
+});
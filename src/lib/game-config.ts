@@ -1,81 +1,24 @@
-import { RoundConfig, PlayerRole } from '@/types/game';
+import { RoundConfig, PlayerRole, PromptPack, GamePhase, RoundPhase, EliminationPhase, GameMode, RoleSettings } from '@/types/game';
+import { promptPackToRoundConfigs } from './prompt-packs';
+import classicPack from './prompt-packs/classic.json';
 
 export const GAME_CONFIG = {
   MIN_PLAYERS: 8,
   MAX_PLAYERS: 16,
+  MAX_SPECTATORS: 50, // late arrivals watching a game in progress
+  MAX_ROOMS: 100, // open rooms per server, anyone can create one without logging in
+  MAX_ASSISTANT_REQUESTS_PER_ROUND: 3, // drafts an ai_user can ask the room's assistant for
+  EVERYONE_IN_COUNTDOWN: 10, // seconds, how long a phase runs on once every active player is done (auto-advance rooms)
   ROUND_DURATION: 3, // minutes
   VOTING_DURATION: 10, // minutes
+  ELIMINATION_VOTING_DURATION: 1, // minutes, the vote after each round in elimination mode
   ROLE_REVEAL_DURATION: 1, // minutes
   LOBBY_AUTO_START_THRESHOLD: 12, // Auto-start with 12 players
   LOBBY_MAX_WAIT_TIME: 5, // minutes
 } as const;
 
-export const ROUND_CONFIGS: RoundConfig[] = [
-  {
-    roundNumber: 1,
-    title: "Conspiracy Theory Generator",
-    description: "Create the most ridiculous conspiracy theory",
-    prompt: "TR: Neden çoraplar kaybolur? Saçma bir komplo teorisi üret!\n\nEN: Why do socks disappear? Create an absurd conspiracy theory!",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 150,
-  },
-  {
-    roundNumber: 2,
-    title: "Alien Interview",
-    description: "You're interviewing an alien visitor",
-    prompt: "TR: Bir uzaylı sana insan davranışları hakkında garip bir soru soruyor. Nedir bu soru?\n\nEN: An alien asks you a weird question about human behavior. What is it?",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 120,
-  },
-  {
-    roundNumber: 3,
-    title: "Startup Pitch Battle",
-    description: "Pitch the most ridiculous startup idea",
-    prompt: "TR: Kimsenin bilmediği bir problemi çözen startup fikri öner!\n\nEN: Pitch a startup that solves a problem nobody knew existed!",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 150,
-  },
-  {
-    roundNumber: 4,
-    title: "Time Travel Mishap",
-    description: "You accidentally time traveled",
-    prompt: "TR: Zaman yolculuğu yanlış gitti, yanlış yere düştün. Nerede ve nasıl uyum sağlıyorsun?\n\nEN: Time travel went wrong, you're in the wrong place. Where and how do you fit in?",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 140,
-  },
-  {
-    roundNumber: 5,
-    title: "AI Therapy Session",
-    description: "You're an AI seeking therapy",
-    prompt: "TR: Yeni AI'lardan korkan bir AI'sın. Terapiste ne diyorsun?\n\nEN: You're an AI afraid of newer AIs. What do you tell your therapist?",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 130,
-  },
-  {
-    roundNumber: 6,
-    title: "Superhero Job Interview",
-    description: "Interviewing for a superhero position",
-    prompt: "TR: Avengers'a giriyorsun ama süper gücün çok sıradan. Nasıl ikna ediyorsun?\n\nEN: You're joining the Avengers but your superpower is mundane. How do you convince them?",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 140,
-  },
-  {
-    roundNumber: 7,
-    title: "Reality Show Pitch",
-    description: "Design the weirdest reality show",
-    prompt: "TR: Çok tuhaf ama senin görmek istediğin reality show fikri öner!\n\nEN: Pitch a bizarre reality show idea that for you!",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 140,
-  },
-  {
-    roundNumber: 8,
-    title: "Last Human Standing",
-    description: "You're the last person on Earth",
-    prompt: "TR: Dünyada tek kaldın. Kimseye söylemeyeceğin en garip şey olarak ne yaparsın?\n\nEN: You're alone on Earth. What weird thing did you do that you'd never tell anyone?",
-    duration: GAME_CONFIG.ROUND_DURATION,
-    maxLength: 130,
-  },
-];
+// Rounds of the default (classic) prompt pack, used until a room picks another pack
+export const ROUND_CONFIGS: RoundConfig[] = promptPackToRoundConfigs(classicPack as PromptPack);
 
 export const ROLE_DESCRIPTIONS: Record<PlayerRole, { name: string; description: string; strategy: string; color: string }> = {
   human: {
@@ -104,48 +47,139 @@ export const POINTS_CONFIG = {
   PARTICIPATION_BONUS: 25,
   EARLY_SUBMISSION_BONUS: 10,
   ACCURACY_MULTIPLIER: 2, // multiply points by accuracy percentage
+  CALIBRATION_BONUS: 20, // per vote, a sure right guess earns it all, a sure wrong guess costs three times as much
+  BEAT_THE_MACHINE_BONUS: 30, // per vote that was right where the machine judge got the same player wrong
 } as const;
 
-// Utility function to get role distribution for a given number of players
-export function getRoleDistribution(playerCount: number): Record<PlayerRole, number> {
-  if (playerCount < GAME_CONFIG.MIN_PLAYERS) {
-    throw new Error(`Minimum ${GAME_CONFIG.MIN_PLAYERS} players required`);
+// Confidence a voter attaches to a guess, in percent
+export const VOTE_CONFIDENCE = {
+  MIN: 50, // a coin flip, also used for votes cast without a confidence
+  MAX: 100,
+  STEP: 5,
+  DEFAULT: 75, // where the voting slider starts
+} as const;
+
+export function isValidVoteConfidence(value: unknown): value is number {
+  return typeof value === 'number' && value >= VOTE_CONFIDENCE.MIN && value <= VOTE_CONFIDENCE.MAX;
+}
+
+export const ALL_ROLES: PlayerRole[] = ['human', 'ai_user', 'troll'];
+
+// Classic split (3 human, 3 ai_user, 2 troll for 8 players), scaled to the lobby size
+export const DEFAULT_ROLE_SETTINGS: RoleSettings = {
+  mode: 'ratio',
+  values: { human: 3, ai_user: 3, troll: 2 },
+};
+
+// Smallest game for ratio settings, by how many roles are in play
+export const MIN_PLAYERS_BY_ROLE_COUNT: Record<number, number> = {
+  1: 3,
+  2: 5,
+  3: GAME_CONFIG.MIN_PLAYERS,
+};
+
+// Check host-provided role settings, returns a cleaned copy or the list of problems
+export function validateRoleSettings(input: unknown): { settings: RoleSettings | null; errors: string[] } {
+  const errors: string[] = [];
+  const raw = input as Record<string, any>;
+
+  if (!raw || typeof raw !== 'object') {
+    return { settings: null, errors: ['Role settings must be an object'] };
   }
-  
+  if (raw.mode !== 'ratio' && raw.mode !== 'exact') {
+    errors.push('mode must be "ratio" or "exact"');
+  }
+  if (!raw.values || typeof raw.values !== 'object') {
+    return { settings: null, errors: [...errors, 'values must list a number for every role'] };
+  }
+
+  const values = {} as Record<PlayerRole, number>;
+  ALL_ROLES.forEach(role => {
+    const value = raw.values[role] ?? 0;
+    if (!Number.isInteger(value) || value < 0) {
+      errors.push(`${role} must be a whole number of 0 or more`);
+    }
+    values[role] = value;
+  });
+
+  const total = ALL_ROLES.reduce((sum, role) => sum + (values[role] || 0), 0);
+  if (errors.length === 0 && total === 0) {
+    errors.push('At least one role needs a value above 0');
+  }
+  if (raw.mode === 'exact' && total > GAME_CONFIG.MAX_PLAYERS) {
+    errors.push(`Role counts add up to ${total}, the maximum is ${GAME_CONFIG.MAX_PLAYERS} players`);
+  }
+
+  if (errors.length > 0) {
+    return { settings: null, errors };
+  }
+  return { settings: { mode: raw.mode, values }, errors: [] };
+}
+
+export function getMinPlayersForRoleSettings(settings: RoleSettings = DEFAULT_ROLE_SETTINGS): number {
+  if (settings.mode === 'exact') {
+    return ALL_ROLES.reduce((sum, role) => sum + settings.values[role], 0);
+  }
+  const activeRoles = ALL_ROLES.filter(role => settings.values[role] > 0).length;
+  return MIN_PLAYERS_BY_ROLE_COUNT[activeRoles] || GAME_CONFIG.MIN_PLAYERS;
+}
+
+// Utility function to get role distribution for a given number of players
+export function getRoleDistribution(playerCount: number, settings: RoleSettings = DEFAULT_ROLE_SETTINGS): Record<PlayerRole, number> {
   if (playerCount > GAME_CONFIG.MAX_PLAYERS) {
     throw new Error(`Maximum ${GAME_CONFIG.MAX_PLAYERS} players allowed`);
   }
 
-  // Base distribution (for 8 players): 3 human, 3 ai_user, 2 troll
-  const baseDistribution = {
-    human: 3,
-    ai_user: 3,
-    troll: 2,
-  };
+  if (settings.mode === 'exact') {
+    const total = getMinPlayersForRoleSettings(settings);
+    if (total !== playerCount) {
+      throw new Error(`Role counts add up to ${total} but ${playerCount} players are in the game`);
+    }
+    return { ...settings.values };
+  }
 
-  // Add extra roles proportionally for more players
-  const extraPlayers = playerCount - 8;
-  const roles: PlayerRole[] = ['human', 'ai_user', 'troll'];
-  
-  const distribution = { ...baseDistribution };
-  
-  for (let i = 0; i < extraPlayers; i++) {
-    const roleIndex = i % roles.length;
-    distribution[roles[roleIndex]]++;
+  const minPlayers = getMinPlayersForRoleSettings(settings);
+  if (playerCount < minPlayers) {
+    throw new Error(`Minimum ${minPlayers} players required`);
+  }
+
+  // Largest remainder: floor every share, then hand leftover players to the biggest fractions (role order breaks ties)
+  const weightTotal = ALL_ROLES.reduce((sum, role) => sum + settings.values[role], 0);
+  const shares = ALL_ROLES.map(role => (settings.values[role] / weightTotal) * playerCount);
+  const distribution = { human: 0, ai_user: 0, troll: 0 } as Record<PlayerRole, number>;
+  ALL_ROLES.forEach((role, index) => {
+    distribution[role] = Math.floor(shares[index]);
+  });
+
+  let remaining = playerCount - ALL_ROLES.reduce((sum, role) => sum + distribution[role], 0);
+  const byRemainder = ALL_ROLES
+    .map((role, index) => ({ role, remainder: shares[index] - Math.floor(shares[index]) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { role } of byRemainder) {
+    if (remaining <= 0) break;
+    distribution[role]++;
+    remaining--;
   }
 
+  // A role the host turned on always gets a seat, taken from the biggest role (the minimum lobby leaves room for one each)
+  ALL_ROLES.filter(role => settings.values[role] > 0 && distribution[role] === 0).forEach(role => {
+    const biggest = ALL_ROLES.reduce((max, other) => distribution[other] > distribution[max] ? other : max);
+    distribution[biggest]--;
+    distribution[role]++;
+  });
+
   return distribution;
 }
 
 // Utility function to assign roles randomly with proper distribution
-export function assignRoles(playerIds: string[]): Record<string, PlayerRole> {
+export function assignRoles(playerIds: string[], settings: RoleSettings = DEFAULT_ROLE_SETTINGS): Record<string, PlayerRole> {
   const assignments: Record<string, PlayerRole> = {};
   const playerCount = playerIds.length;
   
   console.log(`Assigning roles for ${playerCount} players`);
   
   // Get the proper role distribution
-  const distribution = getRoleDistribution(playerCount);
+  const distribution = getRoleDistribution(playerCount, settings);
   console.log('Role distribution:', distribution);
   
   // Create an array of roles based on distribution
@@ -199,13 +233,66 @@ export function assignRoles(playerIds: string[]): Record<string, PlayerRole> {
 }
 
 // Get round configuration by round number
-export function getRoundConfig(roundNumber: number): RoundConfig | null {
-  return ROUND_CONFIGS.find(config => config.roundNumber === roundNumber) || null;
+export function getRoundConfig(roundNumber: number, roundConfigs: RoundConfig[] = ROUND_CONFIGS): RoundConfig | null {
+  return roundConfigs.find(config => config.roundNumber === roundNumber) || null;
 }
 
 // Get round configuration by phase name (e.g., "round1" -> round 1)
-export function getRoundConfigByPhase(phase: string): RoundConfig | null {
-  if (!phase.startsWith('round')) return null;
-  const roundNumber = parseInt(phase.replace('round', ''));
-  return getRoundConfig(roundNumber);
-}
\ No newline at end of file
+export function getRoundConfigByPhase(phase: string, roundConfigs: RoundConfig[] = ROUND_CONFIGS): RoundConfig | null {
+  const roundNumber = getRoundNumberFromPhase(phase);
+  return roundNumber === null ? null : getRoundConfig(roundNumber, roundConfigs);
+}
+
+export function getRoundPhase(roundNumber: number): RoundPhase {
+  return `round${roundNumber}`;
+}
+
+// "round3" -> 3, null for any non-round phase
+export function getRoundNumberFromPhase(phase: string): number | null {
+  const match = /^round(\d+)$/.exec(phase);
+  return match ? parseInt(match[1]) : null;
+}
+
+export function isRoundPhase(phase: string): phase is RoundPhase {
+  return getRoundNumberFromPhase(phase) !== null;
+}
+
+export function getEliminationPhase(roundNumber: number): EliminationPhase {
+  return `elimination${roundNumber}`;
+}
+
+// "elimination3" -> 3, null for any other phase
+export function getRoundNumberFromEliminationPhase(phase: string): number | null {
+  const match = /^elimination(\d+)$/.exec(phase);
+  return match ? parseInt(match[1]) : null;
+}
+
+export function isEliminationPhase(phase: string): phase is EliminationPhase {
+  return getRoundNumberFromEliminationPhase(phase) !== null;
+}
+
+export const GAME_MODES: Record<GameMode, { name: string; description: string }> = {
+  classic: {
+    name: 'Klasik',
+    description: 'Tüm turlar bittikten sonra herkes tek seferde oylanır.',
+  },
+  elimination: {
+    name: 'Eleme',
+    description: 'Her turdan sonra en şüpheli oyuncu oylanır, rolü açıklanır ve oyundan çıkar.',
+  },
+};
+
+export function isGameMode(value: unknown): value is GameMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GAME_MODES, value);
+}
+
+// Full phase order for a game with the given number of rounds
+export function buildPhaseSequence(roundCount: number, gameMode: GameMode = 'classic'): GamePhase[] {
+  if (gameMode === 'elimination') {
+    const roundPhases = Array.from({ length: roundCount }, (_, index) => [getRoundPhase(index + 1), getEliminationPhase(index + 1)]).flat();
+    return ['lobby', 'role_reveal', ...roundPhases, 'results', 'finished'];
+  }
+
+  const roundPhases = Array.from({ length: roundCount }, (_, index) => getRoundPhase(index + 1));
+  return ['lobby', 'role_reveal', ...roundPhases, 'voting', 'results', 'finished'];
+}
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStorageAdapter } from './storage-adapter';
+import SessionManager from './session-manager';
+import { destroyGameManager, findGameManager, getActiveRoomIds, getGameManager } from './game-manager';
+
+function shutDownServer() {
+  getActiveRoomIds().forEach(roomId => destroyGameManager(roomId));
+  global.__sessionManagerInstance__?.destroy();
+  global.__sessionManagerInstance__ = undefined;
+  global.__gameStorageAdapter__ = undefined;
+}
+
+// Drop every in-process singleton so the next lookup has to come back from storage, like a fresh server
+function restartServer() {
+  shutDownServer();
+  global.__gameStorageAdapter__ = createStorageAdapter();
+}
+
+describe.each(['file', 'sqlite'])('rehydration from %s storage', kind => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'game-manager-'));
+    vi.stubEnv('GAME_STORAGE', kind);
+    vi.stubEnv('GAME_STORAGE_PATH', path.join(dir, kind === 'file' ? 'data' : 'data.sqlite'));
+    restartServer();
+  });
+
+  afterEach(() => {
+    shutDownServer();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('brings sessions back after a restart', () => {
+    const gameManager = getGameManager('KQX4');
+    const host = gameManager.addPlayer('Hosta', true)!;
+    const player = gameManager.addPlayer('Ayse')!;
+
+    restartServer();
+
+    const sessionManager = SessionManager.getInstance();
+    expect(sessionManager.hasRoom('KQX4')).toBe(true);
+    expect(sessionManager.getSessionRoomId(player.id)).toBe('KQX4');
+    expect(sessionManager.getAdminPlayer('KQX4')!.id).toBe(host.id);
+    expect(sessionManager.getActivePlayers('KQX4').map(p => p.name)).toEqual(['Ayse']);
+  });
+
+  it('restores a running game with its roles and submissions', () => {
+    const gameManager = getGameManager('KQX4');
+    const host = gameManager.addPlayer('Hosta', true)!;
+    const ayse = gameManager.addPlayer('Ayse')!;
+    const bora = gameManager.addPlayer('Bora')!;
+    gameManager.adminSetRoleSettings(host.id, { mode: 'exact', values: { human: 2, ai_user: 1, troll: 0 } });
+    expect(gameManager.adminForceStart(host.id)).toBe(true);
+    gameManager.advancePhase(); // role_reveal -> round1
+    expect(gameManager.addSubmission(ayse.id, 1, 'The dryer eats them')).toBe(true);
+    const rolesBefore = gameManager.getPlayerRoleAssignments();
+
+    restartServer();
+
+    // Rooms restored from storage count as existing, the registry itself starts empty
+    expect(getActiveRoomIds()).toEqual([]);
+    const restored = findGameManager('KQX4')!;
+    expect(restored).not.toBeNull();
+
+    const gameState = restored.getGameState();
+    expect(gameState.currentPhase).toBe('round1');
+    expect(gameState.adminPlayer!.id).toBe(host.id);
+    expect(restored.getPlayerRoleAssignments()).toEqual(rolesBefore);
+
+    const submissions = restored.getSubmissions(1);
+    expect(submissions).toHaveLength(1);
+    expect(submissions[0].playerId).toBe(ayse.id);
+    expect(submissions[0].submittedAt).toBeInstanceOf(Date);
+
+    // The restored game keeps going where it stopped
+    expect(restored.addSubmission(bora.id, 1, 'Socks unionised')).toBe(true);
+    expect(restored.getSubmissions(1)).toHaveLength(2);
+  });
+
+  it('keeps only the host through a reset', () => {
+    const gameManager = getGameManager('KQX4');
+    const host = gameManager.addPlayer('Hosta', true)!;
+    gameManager.addPlayer('Ayse');
+    gameManager.reset();
+
+    restartServer();
+
+    const restored = findGameManager('KQX4')!;
+    expect(restored.getGameState().players).toEqual([]);
+    expect(restored.getGameState().adminPlayer!.id).toBe(host.id);
+  });
+
+  it('forgets a destroyed room', () => {
+    const gameManager = getGameManager('KQX4');
+    const host = gameManager.addPlayer('Hosta', true)!;
+    gameManager.addPlayer('Ayse');
+    expect(gameManager.adminDestroyGame(host.id)).toBe(true);
+    destroyGameManager('KQX4');
+
+    expect(findGameManager('KQX4')).toBeNull();
+    expect(SessionManager.getInstance().getSessionRoomId(host.id)).toBeNull();
+
+    restartServer();
+
+    expect(findGameManager('KQX4')).toBeNull();
+    expect(global.__gameStorageAdapter__!.get('game_data', 'KQX4')).toBeNull();
+  });
+});
+
+describe('rooms', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('GAME_STORAGE', 'memory');
+    restartServer();
+  });
+
+  afterEach(() => {
+    shutDownServer();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('does not combine anonymous voting with elimination mode', () => {
+    const gameManager = getGameManager('KQX4');
+    const host = gameManager.addPlayer('Hosta', true)!;
+
+    expect(gameManager.adminSetAnonymousVoting(host.id, true)).toBe(true);
+    expect(gameManager.adminSetGameMode(host.id, 'elimination')).toBe(false);
+
+    expect(gameManager.adminSetAnonymousVoting(host.id, false)).toBe(true);
+    expect(gameManager.adminSetGameMode(host.id, 'elimination')).toBe(true);
+    expect(gameManager.adminSetAnonymousVoting(host.id, true)).toBe(false);
+    expect(gameManager.getGameState().anonymousVoting).toBe(false);
+  });
+
+  it('keeps how an answer was typed hidden until its author is revealed', () => {
+    const gameManager = getGameManager('KQX4');
+    const host = gameManager.addPlayer('Hosta', true)!;
+    const ayse = gameManager.addPlayer('Ayse')!;
+    gameManager.addPlayer('Bora');
+    gameManager.adminSetRoleSettings(host.id, { mode: 'exact', values: { human: 2, ai_user: 1, troll: 0 } });
+    gameManager.adminForceStart(host.id);
+    gameManager.advancePhase(); // role_reveal -> round1
+    const telemetry = { timeToFirstKeystrokeMs: null, keystrokes: 0, averageKeyIntervalMs: null, pasteCount: 1, pastedChars: 19, edits: 0 };
+    gameManager.addSubmission(ayse.id, 1, 'The dryer eats them', telemetry);
+    while (gameManager.getGameState().currentPhase !== 'results') {
+      gameManager.advancePhase();
+    }
+
+    const ayseTelemetry = () => gameManager.getRevealedSubmissions()[1][0].telemetry;
+    expect(ayseTelemetry()).toBeUndefined();
+    expect(gameManager.getSpectatorView().submissions![1][0].telemetry).toBeUndefined();
+    expect(gameManager.getRevealedResults().roundSubmissions[1][0].telemetry).toBeUndefined();
+
+    while (!gameManager.getGameState().resultsReveal.revealedPlayerIds.includes(ayse.id)) {
+      expect(gameManager.adminRevealNextPlayer(host.id)).toBe(true);
+    }
+    expect(ayseTelemetry()).toEqual(telemetry);
+  });
+
+  it('caps assistant calls per player and round', () => {
+    const gameManager = getGameManager('KQX4');
+
+    expect([1, 2, 3, 4].map(() => gameManager.claimAssistantRequest('p1', 1))).toEqual([true, true, true, false]);
+    expect(gameManager.claimAssistantRequest('p1', 2)).toBe(true);
+    expect(gameManager.claimAssistantRequest('p2', 1)).toBe(true);
+  });
+
+  it('drops the GameManager of a room that expired', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    getGameManager('KQX4').addPlayer('Hosta', true);
+
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000); // past the session and room timeouts
+    SessionManager.getInstance()['cleanup']();
+
+    expect(getActiveRoomIds()).toEqual([]);
+    expect(findGameManager('KQX4')).toBeNull();
+  });
+});
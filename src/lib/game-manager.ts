@@ -1,21 +1,55 @@
-import { GameState, Player, Submission, Vote, GameEvent, PlayerRole, VotingResults, PlayerScore, GameResults } from '@/types/game';
-import { assignRoles, POINTS_CONFIG, getRoundConfigByPhase } from './game-config';
+import { GameState, Player, Submission, Vote, GameEvent, PlayerRole, VotingResults, PlayerScore, GameResults, PromptPack, RoleSettings, EventAudience, PublicPlayer, PublicGameState, ScoringPresetId, GameMode, AnonymousVotingBoard, MachineVerdict, GamePhase, AssistantConfig, AssistantDraft, AssistantUsage, TypingTelemetry, CompressedReplay, Spectator, ResultsReveal, ResultsRevealStage } from '@/types/game';
+import { assignRoles, GAME_CONFIG, ROUND_CONFIGS, VOTE_CONFIDENCE, DEFAULT_ROLE_SETTINGS, getMinPlayersForRoleSettings, getRoundConfigByPhase, getRoundNumberFromPhase, isRoundPhase, buildPhaseSequence, isEliminationPhase, getRoundNumberFromEliminationPhase } from './game-config';
+import { DEFAULT_PROMPT_PACK_ID, promptPackToRoundConfigs } from './prompt-packs';
 import { getGameConfig, assignTestRoles, TEST_CONFIG } from './test-config';
 import { EventEmitter } from 'events';
 import SessionManager from './session-manager';
+import { DEFAULT_ROOM_ID } from './rooms';
+import { StorageAdapter, getStorageAdapter } from './storage-adapter';
+import { BROADCAST, HOST_ONLY, toPlayer } from './event-audience';
+import { DEFAULT_SCORING_PRESET, findConsensus, rankScores, scorePlayer, summarizeCalibration } from './scoring';
+import { getEliminationOutcome, tallyEliminationVotes } from './elimination';
+import { assignPseudonyms, buildVotingBoard, shuffleBoardOrder } from './pseudonyms';
+import { isMachineRight, judgePlayers } from './stylometry';
+import { guessRole, pickBotAnswer, pickBotDelay, pickBotName, pickEliminationTarget } from './bots';
+import { detectAssistantUsage, getDefaultAssistantConfig } from './llm-adapter';
+import { stripTypingData } from './typing-telemetry';
+
+// Per-room game data persisted next to the session state
+interface StoredGameData {
+  submissions: Map<number, Submission[]>;
+  votes: Vote[];
+  pseudonyms?: Record<string, string>;
+  boardOrder?: Record<number, string[]>;
+  assistantConfig?: AssistantConfig | null;
+  assistantDrafts?: AssistantDraft[];
+  assistantUsage?: Record<string, AssistantUsage>;
+}
 
 class GameManager extends EventEmitter {
   private gameState: GameState;
   private submissions: Map<number, Submission[]> = new Map();
   private votes: Vote[] = [];
+  // Anonymous voting - never part of gameState, so it can't reach a client before results
+  private pseudonyms: Record<string, string> = {}; // playerId -> pseudonym
+  private boardOrder: Record<number, string[]> = {}; // pseudonyms per round, in display order
+  // AI assistant - the endpoint may carry an API key, and drafts reveal who used it
+  private assistantConfig: AssistantConfig | null = getDefaultAssistantConfig();
+  private assistantDrafts: AssistantDraft[] = [];
+  private assistantUsage: Record<string, AssistantUsage> = {}; // submissionId -> usage
+  private assistantRequests: Record<string, number> = {}; // `${playerId}:${roundNumber}` -> endpoint calls, failed ones too
   private phaseTimer: NodeJS.Timeout | null = null;
+  private botTimers: NodeJS.Timeout[] = [];
   private disconnectionTimers: Map<string, NodeJS.Timeout> = new Map();
   private sessionManager: SessionManager;
-  private roomId: string = 'main';
+  private storage: StorageAdapter;
+  private roomId: string;
 
-  constructor() {
+  constructor(roomId: string = DEFAULT_ROOM_ID) {
     super();
+    this.roomId = roomId;
     this.sessionManager = SessionManager.getInstance();
+    this.storage = getStorageAdapter();
     this.gameState = this.initializeGameState();
     this.restoreGameState();
   }
@@ -23,6 +57,7 @@ class GameManager extends EventEmitter {
   private initializeGameState(): GameState {
     const config = getGameConfig();
     return {
+      roomId: this.roomId,
       currentPhase: 'lobby',
       phaseEndTime: null,
       startedAt: null,
@@ -32,6 +67,19 @@ class GameManager extends EventEmitter {
       maxPlayers: config.MAX_PLAYERS,
       roundDuration: config.ROUND_DURATION,
       votingDuration: config.VOTING_DURATION,
+      promptPackId: DEFAULT_PROMPT_PACK_ID,
+      roundConfigs: ROUND_CONFIGS,
+      roleSettings: DEFAULT_ROLE_SETTINGS,
+      scoringPreset: DEFAULT_SCORING_PRESET,
+      roundStartedAt: {},
+      gameMode: 'classic',
+      eliminations: [],
+      anonymousVoting: false,
+      assistantEnabled: !!getDefaultAssistantConfig(),
+      spectators: [],
+      resultsReveal: { stage: 'players', revealedPlayerIds: [] },
+      pause: null,
+      autoAdvance: false,
     };
   }
 
@@ -39,32 +87,179 @@ class GameManager extends EventEmitter {
     const savedState = this.sessionManager.getGameState(this.roomId);
     if (savedState) {
       console.log('Restoring game state from session:', savedState.currentPhase);
-      this.gameState = { ...savedState };
+      this.gameState = { ...savedState, roomId: this.roomId };
+
+      // Snapshots saved before prompt packs existed always ran the classic rounds
+      if (!this.gameState.roundConfigs) {
+        this.gameState.promptPackId = DEFAULT_PROMPT_PACK_ID;
+        this.gameState.roundConfigs = ROUND_CONFIGS;
+      }
+      if (!this.gameState.roleSettings) {
+        this.gameState.roleSettings = DEFAULT_ROLE_SETTINGS;
+      }
+      if (!this.gameState.scoringPreset) {
+        this.gameState.scoringPreset = DEFAULT_SCORING_PRESET;
+      }
+      if (!this.gameState.roundStartedAt) {
+        this.gameState.roundStartedAt = {};
+      }
+      if (!this.gameState.gameMode) {
+        this.gameState.gameMode = 'classic';
+        this.gameState.eliminations = [];
+      }
+      if (this.gameState.anonymousVoting === undefined) {
+        this.gameState.anonymousVoting = false;
+      }
+      if (!this.gameState.spectators) {
+        this.gameState.spectators = [];
+      }
+      if (!this.gameState.resultsReveal) {
+        // Results from before the host-driven reveal were shown in full
+        this.gameState.resultsReveal = { stage: 'leaderboard', revealedPlayerIds: [] };
+      }
+      if (this.gameState.pause === undefined) {
+        this.gameState.pause = null;
+      }
+      if (this.gameState.autoAdvance === undefined) {
+        this.gameState.autoAdvance = false;
+      }
       
-      // Restore players from sessions
-      const activePlayers = this.sessionManager.getActivePlayers(this.roomId);
+      // Restore players from sessions, sessions don't carry roles or eliminations so take those from the snapshot
+      const savedRoles: Record<string, PlayerRole> = {};
+      savedState.players.forEach(p => { savedRoles[p.id] = p.role; });
+      const savedBotIds = new Set(savedState.players.filter(p => p.isBot).map(p => p.id));
+      if (savedState.adminPlayer) {
+        savedRoles[savedState.adminPlayer.id] = savedState.adminPlayer.role;
+      }
+      const eliminatedInRound = (id: string) => this.gameState.eliminations.find(e => e.playerId === id)?.roundNumber;
+
+      const activePlayers = this.sessionManager.getActivePlayers(this.roomId)
+        .map(p => ({
+          ...p,
+          role: savedRoles[p.id] || p.role,
+          eliminatedInRound: eliminatedInRound(p.id),
+          ...(savedBotIds.has(p.id) && { isBot: true }),
+        }));
       const adminPlayer = this.sessionManager.getAdminPlayer(this.roomId);
+      if (adminPlayer) {
+        adminPlayer.role = savedRoles[adminPlayer.id] || adminPlayer.role;
+        adminPlayer.eliminatedInRound = eliminatedInRound(adminPlayer.id);
+      }
       
       this.gameState.players = activePlayers;
       this.gameState.adminPlayer = adminPlayer;
       
       console.log(`Restored ${activePlayers.length} players and admin: ${adminPlayer ? 'yes' : 'no'}`);
+
+      // Restore submissions and votes
+      const savedGameData = this.storage.get<StoredGameData>('game_data', this.roomId);
+      if (savedGameData) {
+        this.submissions = new Map(savedGameData.submissions);
+        // Votes saved before confidences existed count as coin flips
+        this.votes = (savedGameData.votes || []).map(vote => ({ ...vote, confidence: vote.confidence || VOTE_CONFIDENCE.MIN }));
+        this.pseudonyms = savedGameData.pseudonyms || {};
+        this.boardOrder = savedGameData.boardOrder || {};
+        if (savedGameData.assistantConfig !== undefined) {
+          this.assistantConfig = savedGameData.assistantConfig;
+        }
+        this.assistantDrafts = savedGameData.assistantDrafts || [];
+        this.assistantUsage = savedGameData.assistantUsage || {};
+        console.log(`Restored ${this.getAllSubmissionCount()} submissions and ${this.votes.length} votes`);
+      }
+      this.gameState.assistantEnabled = !!this.assistantConfig;
+
+      this.resumePhaseTimer();
+      this.scheduleBotActions();
+    }
+  }
+
+  // Re-arm the phase timer from the saved end time, a timer that expired while we were down fires right away.
+  // A paused game has no end time and stays paused until the host resumes it.
+  private resumePhaseTimer(): void {
+    if (!this.gameState.phaseEndTime) return;
+
+    const remaining = new Date(this.gameState.phaseEndTime).getTime() - Date.now();
+    this.setPhaseTimer(Math.max(remaining, 1000));
+    console.log(`Resumed phase timer for ${this.gameState.currentPhase} with ${Math.max(0, Math.round(remaining / 1000))}s remaining`);
+  }
+
+  // Auto-advance rooms cut a phase short once every connected player still in the game is done with it
+  private checkEveryoneIn(): void {
+    if (!this.gameState.autoAdvance || this.gameState.pause) return;
+
+    const phase = this.gameState.currentPhase;
+    const participants = this.getParticipants();
+    const active = participants.filter(p => p.isConnected && !p.eliminatedInRound);
+    if (active.length === 0) return;
+
+    let everyoneIn = false;
+    if (isRoundPhase(phase)) {
+      const submitted = new Set(this.getSubmissions(getRoundNumberFromPhase(phase)).map(s => s.playerId));
+      everyoneIn = active.every(p => submitted.has(p.id));
+    } else if (isEliminationPhase(phase)) {
+      const roundNumber = getRoundNumberFromEliminationPhase(phase);
+      everyoneIn = active.every(p => this.votes.some(v => v.voterId === p.id && v.roundNumber === roundNumber));
+    } else if (phase === 'voting') {
+      // Role voting is done once a player has a vote on every other player
+      everyoneIn = active.every(p => participants
+        .filter(target => target.id !== p.id)
+        .every(target => this.votes.some(v => v.voterId === p.id && v.targetPlayerId === target.id && v.roundNumber === undefined)));
     }
+    if (!everyoneIn) return;
+
+    // Only ever shortens the phase, an end time already inside the countdown is kept
+    const countdownMs = GAME_CONFIG.EVERYONE_IN_COUNTDOWN * 1000;
+    const { phaseEndTime } = this.gameState;
+    if (phaseEndTime && new Date(phaseEndTime).getTime() - Date.now() <= countdownMs) return;
+
+    this.setPhaseTimer(countdownMs);
+    this.emitGameEvent('everyone_in', {
+      phase,
+      countdown: GAME_CONFIG.EVERYONE_IN_COUNTDOWN,
+      phaseEndTime: this.gameState.phaseEndTime,
+    });
+    this.saveGameState();
+    console.log(`Everyone is in for ${phase}, advancing in ${GAME_CONFIG.EVERYONE_IN_COUNTDOWN}s`);
+  }
+
+  private getAllSubmissionCount(): number {
+    let count = 0;
+    this.submissions.forEach(roundSubmissions => { count += roundSubmissions.length; });
+    return count;
   }
 
   private saveGameState(): void {
     this.sessionManager.saveGameState(this.gameState, this.roomId);
   }
 
+  // Write submissions and votes through the storage adapter
+  private saveGameData(): void {
+    const data: StoredGameData = {
+      submissions: this.submissions,
+      votes: this.votes,
+      pseudonyms: this.pseudonyms,
+      boardOrder: this.boardOrder,
+      assistantConfig: this.assistantConfig,
+      assistantDrafts: this.assistantDrafts,
+      assistantUsage: this.assistantUsage,
+    };
+
+    try {
+      this.storage.set('game_data', this.roomId, data);
+    } catch (error) {
+      console.error(`Failed to persist game data for room ${this.roomId}:`, error);
+    }
+  }
+
   // Player management with session persistence
-  addPlayer(name: string, isAdmin: boolean = false, existingPlayerId?: string): Player | null {
+  addPlayer(name: string, isAdmin: boolean = false, existingPlayerId?: string, isBot: boolean = false): Player | null {
     if (this.gameState.currentPhase !== 'lobby') {
       return null; // Can only join during lobby
     }
 
     // Try to restore existing session first
     if (existingPlayerId) {
-      const canRejoin = this.sessionManager.canRejoinGame(existingPlayerId);
+      const canRejoin = this.sessionManager.canRejoinGame(existingPlayerId, this.roomId);
       if (canRejoin) {
         const session = this.sessionManager.getSession(existingPlayerId);
         if (session && session.playerName.toLowerCase() === name.toLowerCase()) {
@@ -83,13 +278,13 @@ class GameManager extends EventEmitter {
 
           if (session.isAdmin) {
             this.gameState.adminPlayer = player;
-            this.emitGameEvent('admin_joined', { player });
+            this.emitGameEvent('admin_joined', { player: this.toPublicPlayer(player) });
           } else {
             // Check if player is already in the list
             const existingIndex = this.gameState.players.findIndex(p => p.id === existingPlayerId);
             if (existingIndex === -1) {
               this.gameState.players.push(player);
-              this.emitGameEvent('player_joined', { player });
+              this.emitGameEvent('player_joined', { player: this.toPublicPlayer(player) });
             }
           }
 
@@ -128,7 +323,7 @@ class GameManager extends EventEmitter {
       this.sessionManager.createOrRestoreSession(playerId, name.trim(), true, this.roomId);
       
       this.gameState.adminPlayer = adminPlayer;
-      this.emitGameEvent('admin_joined', { player: adminPlayer });
+      this.emitGameEvent('admin_joined', { player: this.toPublicPlayer(adminPlayer) });
       this.saveGameState();
       return adminPlayer;
     }
@@ -158,13 +353,14 @@ class GameManager extends EventEmitter {
       isConnected: true,
       lastSeen: new Date(),
       isAdmin: false,
+      ...(isBot && { isBot: true }),
     };
 
     // Create session
     this.sessionManager.createOrRestoreSession(playerId, name.trim(), false, this.roomId);
 
     this.gameState.players.push(player);
-    this.emitGameEvent('player_joined', { player });
+    this.emitGameEvent('player_joined', { player: this.toPublicPlayer(player) });
 
     // Check if we can auto-start the game
     this.checkAutoStart();
@@ -173,6 +369,44 @@ class GameManager extends EventEmitter {
     return player;
   }
 
+  // Late arrivals watch instead of playing, they carry a signed id like players but get no session, role or seat
+  addSpectator(name: string, existingSpectatorId?: string): Spectator | null {
+    if (this.gameState.currentPhase === 'lobby') {
+      return null; // Lobby arrivals join as players
+    }
+
+    const existing = this.gameState.spectators.find(s => s.id === existingSpectatorId);
+    if (existing && existing.name.toLowerCase() === name.toLowerCase()) {
+      return existing;
+    }
+
+    if (this.gameState.spectators.length >= GAME_CONFIG.MAX_SPECTATORS) {
+      return null; // Too many spectators
+    }
+
+    const isNameTaken = [...this.getParticipants(), ...this.gameState.spectators]
+      .some(p => p.name.toLowerCase() === name.toLowerCase());
+    if (isNameTaken) {
+      return null;
+    }
+
+    const spectator: Spectator = {
+      id: this.sessionManager.generatePlayerId(),
+      name: name.trim(),
+      joinedAt: new Date(),
+    };
+    this.gameState.spectators.push(spectator);
+    this.emitGameEvent('spectator_joined', { spectator });
+    this.saveGameState();
+
+    console.log(`${spectator.name} joined room ${this.roomId} as a spectator during ${this.gameState.currentPhase}`);
+    return spectator;
+  }
+
+  isSpectator(playerId: string): boolean {
+    return this.gameState.spectators.some(s => s.id === playerId);
+  }
+
   removePlayer(playerId: string): boolean {
     // Remove from session manager
     this.sessionManager.removeSession(playerId);
@@ -189,8 +423,9 @@ class GameManager extends EventEmitter {
         this.disconnectionTimers.delete(playerId);
       }
 
-      this.emitGameEvent('admin_left', { player: adminPlayer });
+      this.emitGameEvent('admin_left', { player: this.toPublicPlayer(adminPlayer) });
       this.saveGameState();
+      this.checkEveryoneIn();
       return true;
     }
 
@@ -208,11 +443,16 @@ class GameManager extends EventEmitter {
       this.disconnectionTimers.delete(playerId);
     }
 
-    this.emitGameEvent('player_left', { player });
+    this.emitGameEvent('player_left', { player: this.toPublicPlayer(player) });
+    if (player.isBot) {
+      this.emitBotRoster();
+    }
     this.saveGameState();
 
     // Check if game should end due to too few players
     this.checkGameContinuation();
+    // The player who left may have been the last one everyone was waiting on
+    this.checkEveryoneIn();
 
     return true;
   }
@@ -243,6 +483,7 @@ class GameManager extends EventEmitter {
         }
       }
       this.saveGameState();
+      if (!isConnected) this.checkEveryoneIn();
       return true;
     }
 
@@ -269,6 +510,8 @@ class GameManager extends EventEmitter {
     }
 
     this.saveGameState();
+    // Disconnected players are not waited on
+    if (!isConnected) this.checkEveryoneIn();
 
     return true;
   }
@@ -281,8 +524,10 @@ class GameManager extends EventEmitter {
         return false;
       }
       
-      if (this.gameState.players.length < this.gameState.minPlayers) {
-        console.error(`Cannot start game: need ${this.gameState.minPlayers} players, have ${this.gameState.players.length}`);
+      // The host gets a role too, so count them against the role settings
+      const participantCount = this.gameState.players.length + (this.gameState.adminPlayer ? 1 : 0);
+      if (participantCount < this.gameState.minPlayers) {
+        console.error(`Cannot start game: need ${this.gameState.minPlayers} players, have ${participantCount}`);
         return false;
       }
 
@@ -302,7 +547,7 @@ class GameManager extends EventEmitter {
       console.log('DEBUG: All player IDs for role assignment:', playerIds);
 
       // Use test-aware role assignment
-      const roleAssignments = TEST_CONFIG.ENABLED ? assignTestRoles(playerIds) : assignRoles(playerIds);
+      const roleAssignments = this.dealRoles(playerIds);
       console.log('DEBUG: Role assignments:', roleAssignments);
 
       // Validate role assignments
@@ -348,8 +593,8 @@ class GameManager extends EventEmitter {
 
       this.emitGameEvent('game_started', {
         gameState: this.getPublicGameState(),
-        roleAssignments: this.getPlayerRoleAssignments()
       });
+      this.emitRoleAssignments();
 
       console.log(`Game started successfully with ${allPlayers.length} players`);
       this.saveGameState();
@@ -363,9 +608,8 @@ class GameManager extends EventEmitter {
 
   advancePhase(): boolean {
     try {
-      const phaseOrder: GameState['currentPhase'][] = [
-        'lobby', 'role_reveal', 'round1', 'round2', 'round3', 'round4', 'round5', 'round6', 'round7', 'round8', 'voting', 'results', 'finished'
-      ];
+      // One round phase per round of the selected prompt pack, elimination mode adds a vote after each
+      const phaseOrder = buildPhaseSequence(this.gameState.roundConfigs.length, this.gameState.gameMode);
 
       const currentIndex = phaseOrder.indexOf(this.gameState.currentPhase);
       if (currentIndex === -1) {
@@ -378,28 +622,32 @@ class GameManager extends EventEmitter {
         return false;
       }
 
-      const nextPhase = phaseOrder[currentIndex + 1];
+      let nextPhase = phaseOrder[currentIndex + 1];
       const previousPhase = this.gameState.currentPhase;
       
       // Clear any existing timer
       this.clearPhaseTimer();
+      this.clearBotTimers();
+
+      // Closing an elimination vote removes a player and can end the game early
+      if (isEliminationPhase(previousPhase)) {
+        this.resolveElimination(getRoundNumberFromEliminationPhase(previousPhase));
+        if (getEliminationOutcome(this.getParticipants(), this.gameState.eliminations, false)) {
+          nextPhase = 'results';
+        }
+      }
       
-      // Update phase
+      // Update phase, moving on also lifts a pause
       this.gameState.currentPhase = nextPhase;
+      this.gameState.pause = null;
+      if (isRoundPhase(nextPhase)) {
+        // Early submission bonuses are measured from here
+        this.gameState.roundStartedAt = { ...this.gameState.roundStartedAt, [getRoundNumberFromPhase(nextPhase)]: new Date() };
+      }
 
       // Set appropriate timer for the new phase (only if no admin for manual control)
       if (!this.gameState.adminPlayer) {
-        let duration = 0;
-        if (nextPhase.startsWith('round')) {
-          duration = this.gameState.roundDuration * 60 * 1000;
-        } else if (nextPhase === 'voting') {
-          duration = this.gameState.votingDuration * 60 * 1000;
-        } else if (nextPhase === 'results') {
-          duration = 10 * 1000; // 10 seconds to view results
-        } else if (nextPhase === 'finished') {
-          duration = 0; // No timer for finished phase
-        }
-
+        const duration = this.getPhaseDuration(nextPhase);
         if (duration > 0) {
           this.setPhaseTimer(duration);
         }
@@ -413,15 +661,24 @@ class GameManager extends EventEmitter {
         phaseEndTime: this.gameState.phaseEndTime
       };
 
-      if (nextPhase === 'voting') {
+      if (nextPhase === 'voting' && this.gameState.anonymousVoting) {
+        // Authors stay hidden, everyone learns their own pseudonym privately
+        this.preparePseudonyms();
+        eventData.anonymousBoard = this.getVotingBoard();
+        console.log(`Advancing to anonymous voting with ${eventData.anonymousBoard.pseudonyms.length} pseudonyms`);
+      } else if (nextPhase === 'voting' || isEliminationPhase(nextPhase)) {
         // Ensure all submissions are available for voting
-        eventData.submissions = this.getAllSubmissions();
+        eventData.submissions = stripTypingData(this.getAllSubmissions());
         console.log(`Advancing to voting phase with ${Object.keys(eventData.submissions).length} rounds of submissions`);
       } else if (nextPhase === 'results') {
-        // Calculate and send final results
+        // The host walks everyone through the results, without a host they are shown in full
+        this.gameState.resultsReveal = { stage: this.gameState.adminPlayer ? 'players' : 'leaderboard', revealedPlayerIds: [] };
+        eventData.resultsReveal = this.gameState.resultsReveal;
+
+        // Calculate and send final results, only as far as the reveal has got
         try {
-          eventData.results = this.calculateResults();
-          eventData.submissions = this.getAllSubmissions(); // Include submissions for results display
+          eventData.results = this.getRevealedResults();
+          eventData.submissions = this.getRevealedSubmissions(); // Include submissions for results display
           console.log('DEBUG: Calculated results for results phase:', {
             finalScores: eventData.results.finalScores.length,
             votingResults: eventData.results.votingResults.length
@@ -438,8 +695,10 @@ class GameManager extends EventEmitter {
               gameDuration: 0,
               averageAccuracy: 0,
               mostAccuratePlayer: '',
-              bestHiddenRole: ''
-            }
+              bestHiddenRole: '',
+              machineAccuracy: 0
+            },
+            machineVerdicts: []
           };
         }
       }
@@ -447,6 +706,9 @@ class GameManager extends EventEmitter {
       // Save state and emit event
       this.saveGameState();
       this.emitGameEvent('phase_changed', eventData);
+      this.scheduleBotActions();
+      // An elimination changes who is still being waited on
+      this.checkEveryoneIn();
       
       console.log(`Phase advanced: ${previousPhase} → ${nextPhase}`);
       return true;
@@ -457,7 +719,7 @@ class GameManager extends EventEmitter {
   }
 
   // Submission management
-  addSubmission(playerId: string, roundNumber: number, content: string): boolean {
+  addSubmission(playerId: string, roundNumber: number, content: string, telemetry?: TypingTelemetry, replay?: CompressedReplay): boolean {
     try {
       // Validate inputs
       if (!playerId || !content || content.trim().length === 0) {
@@ -477,6 +739,16 @@ class GameManager extends EventEmitter {
         return false;
       }
 
+      if (player.eliminatedInRound) {
+        console.error(`Eliminated player ${player.name} cannot submit`);
+        return false;
+      }
+
+      if (this.gameState.pause) {
+        console.error(`Game is paused, submission from ${player.name} rejected`);
+        return false;
+      }
+
       // Check if player already submitted for this round
       const roundSubmissions = this.submissions.get(roundNumber) || [];
       if (roundSubmissions.some(s => s.playerId === playerId)) {
@@ -491,6 +763,8 @@ class GameManager extends EventEmitter {
         roundNumber,
         content: content.trim(),
         submittedAt: new Date(),
+        ...(telemetry && { telemetry }),
+        ...(replay && { replay }),
       };
 
       if (!this.submissions.has(roundNumber)) {
@@ -498,8 +772,24 @@ class GameManager extends EventEmitter {
       }
       this.submissions.get(roundNumber)!.push(submission);
 
-      this.emitGameEvent('submission_received', { submission });
+      // Matched against this player's drafts for the round, only revealed with the results
+      const drafts = this.assistantDrafts
+        .filter(d => d.playerId === playerId && d.roundNumber === roundNumber)
+        .map(d => d.content);
+      const usage = detectAssistantUsage(submission.content, drafts);
+      if (usage) {
+        this.assistantUsage[submission.id] = usage;
+        console.log(`Submission from ${player.name} in round ${roundNumber} uses an assistant draft (${usage})`);
+      }
+      this.saveGameData();
+
+      // Everyone sees progress, the content stays private until voting
+      this.emitGameEvent('submission_received', {
+        roundNumber,
+        submissionCount: this.submissions.get(roundNumber)!.length,
+      });
       console.log(`Submission added successfully for ${player.name} in round ${roundNumber}`);
+      this.checkEveryoneIn();
 
       return true;
     } catch (error) {
@@ -509,7 +799,7 @@ class GameManager extends EventEmitter {
   }
 
   // Voting management
-  addVote(voterId: string, targetPlayerId: string, predictedRole: PlayerRole): boolean {
+  addVote(voterId: string, targetPlayerId: string, predictedRole: PlayerRole, confidence: number = VOTE_CONFIDENCE.MIN): boolean {
     try {
       // Validate inputs
       if (!voterId || !targetPlayerId || !predictedRole) {
@@ -517,7 +807,8 @@ class GameManager extends EventEmitter {
         return false;
       }
 
-      if (this.gameState.currentPhase !== 'voting') {
+      const eliminationRound = getRoundNumberFromEliminationPhase(this.gameState.currentPhase);
+      if (this.gameState.currentPhase !== 'voting' && eliminationRound === null) {
         console.error(`Invalid voting phase: current phase is ${this.gameState.currentPhase}`);
         return false;
       }
@@ -530,6 +821,11 @@ class GameManager extends EventEmitter {
         console.error(`Voter not found: ${voterId}`);
         return false;
       }
+
+      if (this.gameState.pause) {
+        console.error(`Game is paused, vote from ${voter.name} rejected`);
+        return false;
+      }
       
       if (!target) {
         console.error(`Target player not found: ${targetPlayerId}`);
@@ -548,8 +844,17 @@ class GameManager extends EventEmitter {
         return false;
       }
 
-      // Remove existing vote from this voter to this target
-      this.votes = this.votes.filter(v => !(v.voterId === voterId && v.targetPlayerId === targetPlayerId));
+      if (eliminationRound !== null) {
+        // Eliminated players only watch, and each voter picks a single suspect per round
+        if (voter.eliminatedInRound || target.eliminatedInRound) {
+          console.error(`Elimination vote from ${voter.name} on ${target.name} involves an eliminated player`);
+          return false;
+        }
+        this.votes = this.votes.filter(v => !(v.voterId === voterId && v.roundNumber === eliminationRound));
+      } else {
+        // Remove existing vote from this voter to this target
+        this.votes = this.votes.filter(v => !(v.voterId === voterId && v.targetPlayerId === targetPlayerId));
+      }
 
       const vote: Vote = {
         id: this.generateVoteId(),
@@ -558,12 +863,16 @@ class GameManager extends EventEmitter {
         targetPlayerId,
         targetPlayerName: target.name,
         predictedRole,
+        confidence,
         submittedAt: new Date(),
+        ...(eliminationRound !== null && { roundNumber: eliminationRound }),
       };
 
       this.votes.push(vote);
-      this.emitGameEvent('vote_received', { vote });
-      console.log(`Vote added: ${voter.name} voted ${target.name} as ${predictedRole}`);
+      this.saveGameData();
+      this.emitGameEvent('vote_received', { voteCount: this.votes.length });
+      console.log(`Vote added: ${voter.name} voted ${target.name} as ${predictedRole} (${confidence}% sure)`);
+      this.checkEveryoneIn();
 
       return true;
     } catch (error) {
@@ -575,21 +884,104 @@ class GameManager extends EventEmitter {
   // Results calculation
   calculateResults(): GameResults {
     const votingResults = this.calculateVotingResults();
-    const finalScores = this.calculatePlayerScores(votingResults);
     const roundSubmissions = this.getAllSubmissions();
-    const gameStats = this.calculateGameStats(finalScores);
+    // The machine judge reads the same answers the players voted on
+    const machineVerdicts = judgePlayers(roundSubmissions, this.getParticipants());
+    const finalScores = this.calculatePlayerScores(votingResults, machineVerdicts);
+    const gameStats = this.calculateGameStats(finalScores, machineVerdicts);
 
-    return {
+    const results: GameResults = {
       finalScores,
       votingResults,
       roundSubmissions,
       gameStats,
+      machineVerdicts,
     };
+
+    // The pseudonym mapping is only revealed with the results
+    if (Object.keys(this.pseudonyms).length > 0) {
+      results.pseudonyms = { ...this.pseudonyms };
+    }
+    if (Object.keys(this.assistantUsage).length > 0) {
+      results.assistantUsage = { ...this.assistantUsage };
+    }
+
+    // Win conditions are checked after every elimination, reaching results without one means the rounds ran out
+    if (this.gameState.gameMode === 'elimination') {
+      results.elimination = getEliminationOutcome(this.getParticipants(), this.gameState.eliminations, true)!;
+    }
+
+    return results;
+  }
+
+  // Results as clients may see them, until the host reaches the leaderboard only revealed players' roles and scores are in
+  getRevealedResults(): GameResults {
+    const results = this.calculateResults();
+    const { stage, revealedPlayerIds } = this.gameState.resultsReveal;
+    if (stage === 'leaderboard') return results;
+
+    const revealed = new Set(revealedPlayerIds);
+    const submissionAuthors: Record<string, string> = {};
+    Object.values(results.roundSubmissions).flat().forEach(s => { submissionAuthors[s.id] = s.playerId; });
+
+    // The elimination outcome and the awards give the ending away, they wait for the leaderboard
+    const { elimination: _elimination, pseudonyms, assistantUsage, ...rest } = results;
+    return {
+      ...rest,
+      roundSubmissions: stripTypingData(results.roundSubmissions, revealedPlayerIds),
+      finalScores: results.finalScores.filter(score => revealed.has(score.playerId)),
+      votingResults: results.votingResults.filter(result => revealed.has(result.playerId)),
+      gameStats: { ...results.gameStats, mostAccuratePlayer: '', bestHiddenRole: '' },
+      ...(pseudonyms && {
+        pseudonyms: Object.fromEntries(Object.entries(pseudonyms).filter(([playerId]) => revealed.has(playerId))),
+      }),
+      ...(assistantUsage && {
+        assistantUsage: Object.fromEntries(Object.entries(assistantUsage).filter(([submissionId]) => revealed.has(submissionAuthors[submissionId]))),
+      }),
+    };
+  }
+
+  // Paste counts and replays give ai_users away, so how an answer was typed follows the reveal as well
+  getRevealedSubmissions(): Record<number, Submission[]> {
+    const { stage, revealedPlayerIds } = this.gameState.resultsReveal;
+    const submissions = this.getAllSubmissions();
+    return stage === 'leaderboard' ? submissions : stripTypingData(submissions, revealedPlayerIds);
+  }
+
+  private resolveElimination(roundNumber: number): void {
+    const candidates = this.getParticipants().filter(p => !p.eliminatedInRound);
+    const { target, voteCount } = tallyEliminationVotes(this.votes, roundNumber, candidates);
+
+    if (!target) {
+      console.log(`No elimination after round ${roundNumber}: ${voteCount > 0 ? 'tied vote' : 'no votes'}`);
+      this.emitGameEvent('player_eliminated', { roundNumber, elimination: null, reason: voteCount > 0 ? 'tie' : 'no_votes' });
+      return;
+    }
+
+    target.eliminatedInRound = roundNumber;
+    const elimination = {
+      playerId: target.id,
+      playerName: target.name,
+      role: target.role,
+      roundNumber,
+      voteCount,
+    };
+    this.gameState.eliminations = [...this.gameState.eliminations, elimination];
+
+    // The eliminated player's role is revealed to everyone
+    this.emitGameEvent('player_eliminated', { roundNumber, elimination });
+    console.log(`${target.name} (${target.role}) eliminated after round ${roundNumber} with ${voteCount} votes`);
+  }
+
+  // Role guesses only, elimination votes carry a fixed role and no real confidence so they score nothing here
+  private getRoleVotes(): Vote[] {
+    return this.votes.filter(v => v.roundNumber === undefined);
   }
 
   private calculateVotingResults(): VotingResults[] {
-    return this.gameState.players.map(player => {
-      const votesForPlayer = this.votes.filter(v => v.targetPlayerId === player.id);
+    const roleVotes = this.getRoleVotes();
+    return this.getParticipants().map(player => {
+      const votesForPlayer = roleVotes.filter(v => v.targetPlayerId === player.id);
 
       // Count votes for each role
       const roleCounts: Record<PlayerRole, number> = {
@@ -609,12 +1001,6 @@ class GameManager extends EventEmitter {
         percentage: totalVotes > 0 ? Math.round((count / totalVotes) * 100) : 0,
       }));
 
-      // Find most voted role
-      const mostVotedRole = Object.entries(roleCounts).reduce(
-        (max, [role, count]) => count > max.count ? { role: role as PlayerRole, count } : max,
-        { role: 'human' as PlayerRole, count: 0 }
-      ).role;
-
       const correctGuesses = roleCounts[player.role];
 
       return {
@@ -622,17 +1008,28 @@ class GameManager extends EventEmitter {
         playerName: player.name,
         actualRole: player.role,
         votes,
-        mostVotedRole,
+        ...findConsensus(roleCounts),
         correctGuesses,
       };
     });
   }
 
-  private calculatePlayerScores(votingResults: VotingResults[]): PlayerScore[] {
-    return this.gameState.players.map(player => {
-      const playerVotes = this.votes.filter(v => v.voterId === player.id);
+  private calculatePlayerScores(votingResults: VotingResults[], machineVerdicts: MachineVerdict[]): PlayerScore[] {
+    const participants = this.getParticipants();
+    const actualRoles: Record<string, PlayerRole> = {};
+    participants.forEach(p => { actualRoles[p.id] = p.role; });
+    const verdictsByPlayer: Record<string, MachineVerdict> = {};
+    machineVerdicts.forEach(verdict => { verdictsByPlayer[verdict.playerId] = verdict; });
+    const roundDurations: Record<number, number> = {};
+    this.gameState.roundConfigs.forEach((_, index) => {
+      roundDurations[index + 1] = this.getRoundMinutes(index + 1);
+    });
+
+    const roleVotes = this.getRoleVotes();
+    const scores = participants.map(player => {
+      const playerVotes = roleVotes.filter(v => v.voterId === player.id);
       const correctGuesses = playerVotes.filter(vote => {
-        const target = this.gameState.players.find(p => p.id === vote.targetPlayerId);
+        const target = participants.find(p => p.id === vote.targetPlayerId);
         return target && target.role === vote.predictedRole;
       }).length;
 
@@ -642,14 +1039,18 @@ class GameManager extends EventEmitter {
       const votingResult = votingResults.find(vr => vr.playerId === player.id)!;
       const wasGuessedCorrectly = votingResult.mostVotedRole === player.role;
 
-      // Calculate points
-      let points = 0;
-      points += correctGuesses * POINTS_CONFIG.CORRECT_GUESS;
-      if (!wasGuessedCorrectly) {
-        points += POINTS_CONFIG.ROLE_HIDDEN_BONUS;
-      }
-      points += POINTS_CONFIG.PARTICIPATION_BONUS;
-      points = Math.round(points * (1 + accuracy * POINTS_CONFIG.ACCURACY_MULTIPLIER));
+      const { points, breakdown } = scorePlayer(this.gameState.scoringPreset, {
+        player,
+        votesCast: playerVotes,
+        correctGuesses,
+        accuracy,
+        votingResult,
+        submissions: Array.from(this.submissions.values()).flat().filter(s => s.playerId === player.id),
+        roundStartedAt: this.gameState.roundStartedAt,
+        roundDurations,
+        actualRoles,
+        machineVerdicts: verdictsByPlayer,
+      });
 
       // Count how many times they were guessed as each role
       const timesGuessedAs: Record<PlayerRole, number> = {
@@ -658,7 +1059,7 @@ class GameManager extends EventEmitter {
         troll: 0,
       };
 
-      this.votes
+      roleVotes
         .filter(v => v.targetPlayerId === player.id)
         .forEach(vote => {
           timesGuessedAs[vote.predictedRole]++;
@@ -672,14 +1073,18 @@ class GameManager extends EventEmitter {
         totalVotes,
         accuracy,
         points,
+        breakdown,
+        ...summarizeCalibration(playerVotes, actualRoles),
         wasGuessedCorrectly,
         timesGuessedAs,
       };
     });
+
+    return rankScores(scores);
   }
 
-  private calculateGameStats(finalScores: PlayerScore[]) {
-    const totalPlayers = this.gameState.players.length;
+  private calculateGameStats(finalScores: PlayerScore[], machineVerdicts: MachineVerdict[]) {
+    const totalPlayers = finalScores.length;
     const gameDuration = this.gameState.startedAt
       ? Math.round((Date.now() - this.gameState.startedAt.getTime()) / (1000 * 60))
       : 0;
@@ -698,16 +1103,31 @@ class GameManager extends EventEmitter {
         finalScores.filter(p => !p.wasGuessedCorrectly)[0] || finalScores[0]
       );
 
+    const machineCorrect = finalScores.filter(score =>
+      isMachineRight(machineVerdicts.find(verdict => verdict.playerId === score.playerId), score.role)
+    ).length;
+
     return {
       totalPlayers,
       gameDuration,
       averageAccuracy: Math.round(averageAccuracy * 100),
       mostAccuratePlayer: mostAccuratePlayer?.playerName || '',
       bestHiddenRole: bestHiddenRole?.playerName || '',
+      machineAccuracy: totalPlayers > 0 ? Math.round((machineCorrect / totalPlayers) * 100) : 0,
     };
   }
 
   // Helper methods
+
+  // Test mode keeps its small-lobby distributions until there are enough players for the host's role settings
+  private dealRoles(playerIds: string[]): Record<string, PlayerRole> {
+    const settings = this.gameState.roleSettings;
+    if (TEST_CONFIG.ENABLED && playerIds.length < getMinPlayersForRoleSettings(settings)) {
+      return assignTestRoles(playerIds);
+    }
+    return assignRoles(playerIds, settings);
+  }
+
   private checkAutoStart(): void {
     const config = getGameConfig();
     if (this.gameState.players.length >= config.LOBBY_AUTO_START_THRESHOLD) {
@@ -726,8 +1146,7 @@ class GameManager extends EventEmitter {
   }
 
   private isValidSubmissionPhase(roundNumber: number): boolean {
-    const expectedPhase = `round${roundNumber}` as const;
-    return this.gameState.currentPhase === expectedPhase;
+    return getRoundNumberFromPhase(this.gameState.currentPhase) === roundNumber;
   }
 
   private setPhaseTimer(duration: number): void {
@@ -765,12 +1184,93 @@ class GameManager extends EventEmitter {
     }
   }
 
-  public emitGameEvent(type: GameEvent['type'], data: any): void {
+  // Milliseconds a phase runs for when nobody is driving it by hand
+  private getPhaseDuration(phase: GamePhase): number {
+    if (isRoundPhase(phase)) {
+      return this.getRoundMinutes(getRoundNumberFromPhase(phase)) * 60 * 1000;
+    } else if (isEliminationPhase(phase)) {
+      return getGameConfig().ELIMINATION_VOTING_DURATION * 60 * 1000;
+    } else if (phase === 'voting') {
+      return this.gameState.votingDuration * 60 * 1000;
+    } else if (phase === 'results') {
+      return 10 * 1000; // 10 seconds to view results
+    }
+    return 0; // No timer for the other phases
+  }
+
+  // Bots act partway into every round and vote, whether the host or the timer runs the clock
+  private scheduleBotActions(): void {
+    const phase = this.gameState.currentPhase;
+    if (!isRoundPhase(phase) && !isEliminationPhase(phase) && phase !== 'voting') return;
+    if (this.gameState.pause) return; // rescheduled on resume
+
+    const phaseDuration = this.getPhaseDuration(phase);
+    this.getParticipants()
+      .filter(p => p.isBot && !p.eliminatedInRound)
+      .forEach(bot => {
+        this.botTimers.push(setTimeout(() => this.runBotAction(bot.id, phase), pickBotDelay(phaseDuration)));
+      });
+  }
+
+  private clearBotTimers(): void {
+    this.botTimers.forEach(timer => clearTimeout(timer));
+    this.botTimers = [];
+  }
+
+  private runBotAction(botId: string, phase: GamePhase): void {
+    const bot = this.getPlayer(botId);
+    if (!bot || this.gameState.currentPhase !== phase) return;
+
+    // Bots never reconnect, keep their session from expiring mid-game
+    this.sessionManager.updateSessionActivity(botId);
+
+    if (isRoundPhase(phase)) {
+      const roundNumber = getRoundNumberFromPhase(phase);
+      const roundConfig = this.gameState.roundConfigs[roundNumber - 1];
+      if (roundConfig && !this.getSubmissions(roundNumber).some(s => s.playerId === botId)) {
+        this.addSubmission(botId, roundNumber, pickBotAnswer(roundConfig, bot.role));
+      }
+      return;
+    }
+
+    // Bots judge everyone else by what they wrote, like the players do
+    const textsByPlayer: Record<string, string> = {};
+    const allSubmissions = Object.values(this.getAllSubmissions()).flat();
+    this.getParticipants()
+      .filter(p => p.id !== botId && !p.eliminatedInRound)
+      .forEach(p => {
+        textsByPlayer[p.id] = allSubmissions.filter(s => s.playerId === p.id).map(s => s.content).join('\n');
+      });
+
+    if (phase === 'voting') {
+      Object.entries(textsByPlayer).forEach(([targetId, text]) => {
+        const { predictedRole, confidence } = guessRole(text);
+        this.addVote(botId, targetId, predictedRole, confidence);
+      });
+    } else {
+      const targetId = pickEliminationTarget(textsByPlayer);
+      if (targetId) {
+        this.addVote(botId, targetId, 'ai_user', VOTE_CONFIDENCE.DEFAULT);
+      }
+    }
+  }
+
+  getBotPlayerIds(): string[] {
+    return this.gameState.players.filter(p => p.isBot).map(p => p.id);
+  }
+
+  // Only the host learns which seats are bots, everyone else has to guess
+  private emitBotRoster(): void {
+    this.emitGameEvent('bots_updated', { botPlayerIds: this.getBotPlayerIds() }, HOST_ONLY);
+  }
+
+  public emitGameEvent(type: GameEvent['type'], data: any, audience: EventAudience = BROADCAST): void {
     try {
       const event: GameEvent = {
         type,
         data,
         timestamp: new Date(),
+        audience,
       };
       this.emit('gameEvent', event);
       console.log(`Game event emitted: ${type}`);
@@ -791,27 +1291,98 @@ class GameManager extends EventEmitter {
     return `vote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // Tear down timers and listeners when the room is removed from the registry
+  destroy(): void {
+    this.clearPhaseTimer();
+    this.clearBotTimers();
+    this.disconnectionTimers.forEach(timer => clearTimeout(timer));
+    this.disconnectionTimers.clear();
+    this.removeAllListeners();
+  }
+
   // Public getters
+  getRoomId(): string {
+    return this.roomId;
+  }
+
   getGameState(): GameState {
     return { ...this.gameState };
   }
 
-  getPublicGameState(): Omit<GameState, 'players'> & { players: Omit<Player, 'role'>[], currentRound?: any } {
-    const publicState = {
+  getPublicGameState(): PublicGameState {
+    const publicState: PublicGameState = {
       ...this.gameState,
-      players: this.gameState.players.map(({ role, ...player }) => player),
+      players: this.gameState.players.map(player => this.toPublicPlayer(player)),
+      adminPlayer: this.gameState.adminPlayer ? this.toPublicPlayer(this.gameState.adminPlayer) : null,
     };
 
     // Add current round configuration if in a round phase
-    if (this.gameState.currentPhase.startsWith('round')) {
-      const roundConfig = getRoundConfigByPhase(this.gameState.currentPhase);
+    if (isRoundPhase(this.gameState.currentPhase)) {
+      const roundConfig = getRoundConfigByPhase(this.gameState.currentPhase, this.gameState.roundConfigs);
       if (roundConfig) {
-        (publicState as any).currentRound = roundConfig;
+        publicState.currentRound = roundConfig;
       }
     }
     return publicState;
   }
 
+  private toPublicPlayer(player: Player): PublicPlayer {
+    const { role, isBot, ...publicPlayer } = player;
+    return publicPlayer;
+  }
+
+  // Everyone who was dealt a role, the host included
+  private getParticipants(): Player[] {
+    return this.gameState.adminPlayer
+      ? [...this.gameState.players, this.gameState.adminPlayer]
+      : this.gameState.players;
+  }
+
+  // Test mode keeps its short rounds, otherwise each round runs for its pack duration
+  private getRoundMinutes(roundNumber: number): number {
+    const roundConfig = this.gameState.roundConfigs[roundNumber - 1];
+    return TEST_CONFIG.ENABLED || !roundConfig ? this.gameState.roundDuration : roundConfig.duration;
+  }
+
+  // Every player (host included) hears only their own role
+  private emitRoleAssignments(): void {
+    this.getParticipants().forEach(({ id, role }) => {
+      this.emitGameEvent('role_assigned', { playerId: id, role }, toPlayer(id));
+    });
+  }
+
+  // What a spectator may see right now: answers once voting starts (never how they were typed), roles only with the results
+  getSpectatorView(): { gameState: PublicGameState; submissions?: Record<number, Submission[]>; anonymousBoard?: AnonymousVotingBoard; results?: GameResults } {
+    const { currentPhase, anonymousVoting } = this.gameState;
+    const view: ReturnType<GameManager['getSpectatorView']> = { gameState: this.getPublicGameState() };
+
+    if (currentPhase === 'voting' && anonymousVoting) {
+      view.anonymousBoard = this.getVotingBoard();
+    } else if (currentPhase === 'voting' || isEliminationPhase(currentPhase)) {
+      view.submissions = stripTypingData(this.getAllSubmissions());
+    } else if (currentPhase === 'results') {
+      view.submissions = this.getRevealedSubmissions();
+      view.results = this.getRevealedResults();
+    }
+    return view;
+  }
+
+  // What the presenter screen shows: progress counts but never an answer, and the results once they are in
+  getScreenView(): { gameState: PublicGameState; submissionCount: number; voteCount: number; results?: GameResults } {
+    const { currentPhase } = this.gameState;
+    const roundNumber = getRoundNumberFromPhase(currentPhase);
+    const view: ReturnType<GameManager['getScreenView']> = {
+      gameState: this.getPublicGameState(),
+      submissionCount: roundNumber !== null ? this.getSubmissions(roundNumber).length : 0,
+      voteCount: this.votes.length,
+    };
+
+    if (currentPhase === 'results') {
+      view.results = this.getRevealedResults();
+    }
+    return view;
+  }
+
   getPlayerRoleAssignments(): Record<string, PlayerRole> {
     const assignments: Record<string, PlayerRole> = {};
     this.gameState.players.forEach(player => {
@@ -832,6 +1403,29 @@ class GameManager extends EventEmitter {
     return allSubmissions;
   }
 
+  private preparePseudonyms(): void {
+    this.pseudonyms = assignPseudonyms(this.getParticipants().map(p => p.id));
+    this.boardOrder = shuffleBoardOrder(this.pseudonyms, this.gameState.roundConfigs.length);
+    this.saveGameData();
+
+    Object.entries(this.pseudonyms).forEach(([playerId, pseudonym]) => {
+      this.emitGameEvent('pseudonym_assigned', { playerId, pseudonym }, toPlayer(playerId));
+    });
+  }
+
+  getVotingBoard(): AnonymousVotingBoard {
+    return buildVotingBoard(this.getAllSubmissions(), this.pseudonyms, this.boardOrder);
+  }
+
+  getPseudonym(playerId: string): string | null {
+    return this.pseudonyms[playerId] || null;
+  }
+
+  resolvePseudonym(pseudonym: string): string | null {
+    const entry = Object.entries(this.pseudonyms).find(([, name]) => name === pseudonym);
+    return entry ? entry[0] : null;
+  }
+
   getVotes(): Vote[] {
     return [...this.votes];
   }
@@ -854,7 +1448,7 @@ class GameManager extends EventEmitter {
     }
 
     // Check if we can restore from session
-    if (this.sessionManager.canRejoinGame(playerId)) {
+    if (this.sessionManager.canRejoinGame(playerId, this.roomId)) {
       const session = this.sessionManager.getSession(playerId);
       if (session) {
         console.log('GameManager: Attempting to restore player session:', session.playerName);
@@ -891,13 +1485,13 @@ class GameManager extends EventEmitter {
         // Add to appropriate list
         if (session.isAdmin) {
           this.gameState.adminPlayer = restoredPlayer;
-          this.emitGameEvent('admin_joined', { player: restoredPlayer });
+          this.emitGameEvent('admin_joined', { player: this.toPublicPlayer(restoredPlayer) });
         } else {
           // Check if already in players list to avoid duplicates
           const existingIndex = this.gameState.players.findIndex(p => p.id === playerId);
           if (existingIndex === -1) {
             this.gameState.players.push(restoredPlayer);
-            this.emitGameEvent('player_joined', { player: restoredPlayer });
+            this.emitGameEvent('player_joined', { player: this.toPublicPlayer(restoredPlayer) });
           } else {
             // Update existing entry
             this.gameState.players[existingIndex] = restoredPlayer;
@@ -915,25 +1509,51 @@ class GameManager extends EventEmitter {
     return null;
   }
 
-  reset(): void {
+  // Destroying a room passes keepHost = false so nothing of it is left in the session store or storage
+  reset(keepHost: boolean = true): void {
     try {
       console.log('Resetting game state');
       
       // Clear all timers
       this.clearPhaseTimer();
+      this.clearBotTimers();
       this.disconnectionTimers.forEach(timer => clearTimeout(timer));
       this.disconnectionTimers.clear();
       
-      // Reset game state
+      // Reset game state, the host keeps their seat since only the default room can seat a new one on join
+      const host = this.gameState.adminPlayer;
       this.gameState = this.initializeGameState();
       this.submissions.clear();
       this.votes = [];
+      this.pseudonyms = {};
+      this.boardOrder = {};
+      this.assistantConfig = getDefaultAssistantConfig();
+      this.assistantDrafts = [];
+      this.assistantUsage = {};
+      this.assistantRequests = {};
       
-      // Clear session state
-      this.sessionManager.destroy();
-      this.sessionManager = SessionManager.getInstance();
+      // Clear session state and stored game data for this room only
+      this.sessionManager.removeRoom(this.roomId);
+      this.storage.delete('game_data', this.roomId);
+
+      if (host && keepHost) {
+        this.gameState.adminPlayer = {
+          id: host.id,
+          name: host.name,
+          role: 'human', // Will be reassigned when game starts
+          joinedAt: host.joinedAt,
+          isConnected: host.isConnected,
+          lastSeen: new Date(),
+          isAdmin: true,
+        };
+        this.sessionManager.createOrRestoreSession(host.id, host.name, true, this.roomId);
+        this.saveGameState();
+      }
       
-      this.emitGameEvent('game_ended', { reason: 'reset' });
+      this.emitGameEvent('game_ended', {
+        reason: 'reset',
+        adminPlayer: this.gameState.adminPlayer ? this.toPublicPlayer(this.gameState.adminPlayer) : null,
+      });
       console.log('Game reset completed');
     } catch (error) {
       console.error('Error resetting game:', error);
@@ -961,8 +1581,14 @@ class GameManager extends EventEmitter {
     const playerIds = allPlayers.map(p => p.id);
     console.log('DEBUG: All player IDs for role assignment:', playerIds);
 
-    // Use test-aware role assignment
-    const roleAssignments = TEST_CONFIG.ENABLED ? assignTestRoles(playerIds) : assignRoles(playerIds);
+    // Use test-aware role assignment, role settings that don't fit the lobby block the start
+    let roleAssignments: Record<string, PlayerRole>;
+    try {
+      roleAssignments = this.dealRoles(playerIds);
+    } catch (error) {
+      console.error('Cannot force start game:', error instanceof Error ? error.message : error);
+      return false;
+    }
     console.log('DEBUG: Role assignments:', roleAssignments);
 
     // Assign roles to regular players
@@ -984,8 +1610,9 @@ class GameManager extends EventEmitter {
 
     this.emitGameEvent('game_started', {
       gameState: this.getPublicGameState(),
-      roleAssignments: this.getPlayerRoleAssignments()
     });
+    this.emitRoleAssignments();
+    this.saveGameState();
 
     return true;
   }
@@ -1008,7 +1635,8 @@ class GameManager extends EventEmitter {
     if (!player) return false;
 
     player.role = role;
-    this.emitGameEvent('role_assigned', { playerId: targetPlayerId, role });
+    this.saveGameState();
+    this.emitGameEvent('role_assigned', { playerId: targetPlayerId, role }, toPlayer(targetPlayerId));
     return true;
   }
 
@@ -1022,21 +1650,74 @@ class GameManager extends EventEmitter {
   adminSetTimer(adminId: string, durationSeconds: number): boolean {
     if (!this.isAdmin(adminId)) return false;
 
+    // While paused the new time waits for the resume
+    if (this.gameState.pause) {
+      this.gameState.pause = { ...this.gameState.pause, remainingMs: durationSeconds * 1000 };
+      this.saveGameState();
+      this.emitGameEvent('timer_set', { duration: durationSeconds });
+      return true;
+    }
+
     this.clearPhaseTimer();
     this.setPhaseTimer(durationSeconds * 1000);
+    this.saveGameState();
 
     this.emitGameEvent('timer_set', { duration: durationSeconds });
     return true;
   }
 
+  // Freeze the phase timer and every player's input, keeping what was left on the clock
+  adminPauseGame(adminId: string): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    const phase = this.gameState.currentPhase;
+    if (this.gameState.pause || phase === 'lobby' || phase === 'results' || phase === 'finished') return false;
+
+    const { phaseEndTime } = this.gameState;
+    const remainingMs = phaseEndTime ? Math.max(0, new Date(phaseEndTime).getTime() - Date.now()) : null;
+
+    this.clearPhaseTimer();
+    this.clearBotTimers();
+    this.gameState.phaseEndTime = null;
+    this.gameState.pause = { pausedAt: new Date(), remainingMs };
+
+    this.emitGameEvent('game_paused', { pause: this.gameState.pause });
+    this.saveGameState();
+    console.log(`Game paused in ${phase} with ${remainingMs === null ? 'no timer' : `${remainingMs}ms`} remaining`);
+    return true;
+  }
+
+  // Pick the phase timer back up from exactly where it stopped
+  adminResumeGame(adminId: string): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (!this.gameState.pause) return false;
+
+    const { remainingMs } = this.gameState.pause;
+    this.gameState.pause = null;
+    if (remainingMs !== null) {
+      this.setPhaseTimer(Math.max(remainingMs, 1)); // a timer paused at zero fires right away
+    }
+    this.scheduleBotActions();
+
+    this.emitGameEvent('game_resumed', { phaseEndTime: this.gameState.phaseEndTime });
+    this.saveGameState();
+    // Players who dropped out during the pause may leave everyone else done
+    this.checkEveryoneIn();
+    console.log(`Game resumed in ${this.gameState.currentPhase}`);
+    return true;
+  }
+
+  isPaused(): boolean {
+    return !!this.gameState.pause;
+  }
+
   adminDestroyGame(adminId: string): boolean {
     if (!this.isAdmin(adminId)) return false;
 
     // Send game_destroyed event to all players to redirect them to homepage
     this.emitGameEvent('game_destroyed', { message: 'Game has been destroyed by admin' });
 
-    // Reset the game state
-    this.reset();
+    // Reset the game state without re-seating the host
+    this.reset(false);
     return true;
   }
 
@@ -1045,20 +1726,252 @@ class GameManager extends EventEmitter {
     this.reset();
     return true;
   }
+
+  adminTransferHost(adminId: string, targetPlayerId: string): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (targetPlayerId === adminId) return false;
+
+    const targetIndex = this.gameState.players.findIndex(p => p.id === targetPlayerId);
+    if (targetIndex === -1 || this.gameState.players[targetIndex].isBot) return false;
+
+    const previousHost = this.gameState.adminPlayer!;
+    const nextHost = this.gameState.players[targetIndex];
+
+    // Swap slots - the previous host keeps playing as a regular player with the same role
+    this.gameState.players.splice(targetIndex, 1, { ...previousHost, isAdmin: false });
+    this.gameState.adminPlayer = { ...nextHost, isAdmin: true };
+    this.sessionManager.setAdminSession(this.roomId, targetPlayerId);
+
+    this.emitGameEvent('host_transferred', {
+      fromPlayerId: adminId,
+      toPlayerId: targetPlayerId,
+      player: { id: nextHost.id, name: nextHost.name },
+    });
+    this.emitBotRoster(); // the new host needs to know the bots too
+    this.saveGameState();
+    return true;
+  }
+
+  // Prompt packs can only be swapped before the game starts, the pack must already be validated
+  adminSetPromptPack(adminId: string, pack: PromptPack): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'lobby') return false;
+
+    this.gameState.promptPackId = pack.id;
+    this.gameState.roundConfigs = promptPackToRoundConfigs(pack);
+
+    this.emitGameEvent('prompt_pack_selected', {
+      promptPackId: pack.id,
+      name: pack.name,
+      roundConfigs: this.gameState.roundConfigs,
+    });
+    this.saveGameState();
+    return true;
+  }
+
+  // Role settings are validated by the caller, the minimum lobby size follows them
+  adminSetRoleSettings(adminId: string, settings: RoleSettings): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'lobby') return false;
+
+    this.gameState.roleSettings = settings;
+    this.gameState.minPlayers = TEST_CONFIG.ENABLED ? getGameConfig().MIN_PLAYERS : getMinPlayersForRoleSettings(settings);
+
+    this.emitGameEvent('role_settings_updated', {
+      roleSettings: settings,
+      minPlayers: this.gameState.minPlayers,
+    });
+    this.saveGameState();
+    return true;
+  }
+
+  // Elimination votes name a player, so anonymous voting only works in classic mode
+  adminSetAnonymousVoting(adminId: string, anonymousVoting: boolean): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'lobby') return false;
+    if (anonymousVoting && this.gameState.gameMode === 'elimination') return false;
+
+    this.gameState.anonymousVoting = anonymousVoting;
+
+    this.emitGameEvent('anonymous_voting_updated', { anonymousVoting });
+    this.saveGameState();
+    return true;
+  }
+
+  adminSetAutoAdvance(adminId: string, autoAdvance: boolean): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'lobby') return false;
+
+    this.gameState.autoAdvance = autoAdvance;
+
+    this.emitGameEvent('auto_advance_updated', { autoAdvance });
+    this.saveGameState();
+    return true;
+  }
+
+  // The endpoint can be swapped mid-game too, e.g. when a local server goes down
+  adminSetAssistant(adminId: string, config: AssistantConfig | null): boolean {
+    if (!this.isAdmin(adminId)) return false;
+
+    this.assistantConfig = config;
+    this.gameState.assistantEnabled = !!config;
+    this.saveGameData();
+
+    this.emitGameEvent('assistant_updated', { assistantEnabled: this.gameState.assistantEnabled });
+    this.saveGameState();
+    return true;
+  }
+
+  getAssistantConfig(): AssistantConfig | null {
+    return this.assistantConfig;
+  }
+
+  // Every call runs on the host's endpoint and key, so each player only gets a few per round
+  claimAssistantRequest(playerId: string, roundNumber: number): boolean {
+    const key = `${playerId}:${roundNumber}`;
+    const used = this.assistantRequests[key] || 0;
+    if (used >= GAME_CONFIG.MAX_ASSISTANT_REQUESTS_PER_ROUND) return false;
+
+    this.assistantRequests[key] = used + 1;
+    return true;
+  }
+
+  recordAssistantDraft(playerId: string, roundNumber: number, content: string): void {
+    this.assistantDrafts.push({ playerId, roundNumber, content, generatedAt: new Date() });
+    this.saveGameData();
+    console.log(`Assistant draft generated for ${playerId} in round ${roundNumber}`);
+  }
+
+  // Unmask the next player's role, last place first
+  adminRevealNextPlayer(adminId: string): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'results') return false;
+
+    const { stage, revealedPlayerIds } = this.gameState.resultsReveal;
+    if (stage !== 'players') return false;
+
+    const nextPlayerId = this.getRevealOrder().find(id => !revealedPlayerIds.includes(id));
+    if (!nextPlayerId) return false;
+
+    this.updateResultsReveal({ stage, revealedPlayerIds: [...revealedPlayerIds, nextPlayerId] });
+    return true;
+  }
+
+  // Move the reveal on to the vote distribution or the leaderboard, never back, every role is public from here
+  adminSetResultsRevealStage(adminId: string, stage: Exclude<ResultsRevealStage, 'players'>): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'results') return false;
+
+    const stages: ResultsRevealStage[] = ['players', 'votes', 'leaderboard'];
+    if (stages.indexOf(stage) <= stages.indexOf(this.gameState.resultsReveal.stage)) return false;
+
+    this.updateResultsReveal({ stage, revealedPlayerIds: this.getRevealOrder() });
+    return true;
+  }
+
+  private getRevealOrder(): string[] {
+    return [...this.calculateResults().finalScores]
+      .sort((a, b) => b.rank - a.rank)
+      .map(score => score.playerId);
+  }
+
+  private updateResultsReveal(resultsReveal: ResultsReveal): void {
+    this.gameState.resultsReveal = resultsReveal;
+    this.emitGameEvent('results_reveal_updated', {
+      resultsReveal,
+      results: this.getRevealedResults(),
+      submissions: this.getRevealedSubmissions(),
+    });
+    this.saveGameState();
+    console.log(`Results reveal: ${resultsReveal.stage}, ${resultsReveal.revealedPlayerIds.length} players revealed`);
+  }
+
+  adminSetGameMode(adminId: string, gameMode: GameMode): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'lobby') return false;
+    if (gameMode === 'elimination' && this.gameState.anonymousVoting) return false;
+
+    this.gameState.gameMode = gameMode;
+
+    this.emitGameEvent('game_mode_updated', { gameMode });
+    this.saveGameState();
+    return true;
+  }
+
+  adminSetScoringPreset(adminId: string, scoringPreset: ScoringPresetId): boolean {
+    if (!this.isAdmin(adminId)) return false;
+    if (this.gameState.currentPhase !== 'lobby') return false;
+
+    this.gameState.scoringPreset = scoringPreset;
+
+    this.emitGameEvent('scoring_preset_updated', { scoringPreset });
+    this.saveGameState();
+    return true;
+  }
+
+  // Bots join through the regular player path and are dealt real roles when the game starts
+  adminAddBot(adminId: string): Player | null {
+    if (!this.isAdmin(adminId)) return null;
+    if (this.gameState.currentPhase !== 'lobby') return null;
+
+    const name = pickBotName(this.getParticipants().map(p => p.name));
+    if (!name) return null;
+
+    const bot = this.addPlayer(name, false, undefined, true);
+    if (bot) {
+      this.emitBotRoster();
+      console.log(`Bot ${bot.name} added to room ${this.roomId}`);
+    }
+    return bot;
+  }
 }
 
-// Singleton instance with global process-level storage to prevent multiple instances in production
+// Room registry with global process-level storage to prevent multiple instances per room in production
 declare global {
-  var __gameManagerInstance__: GameManager | undefined;
+  var __gameManagerRooms__: Map<string, GameManager> | undefined;
 }
 
-export function getGameManager(): GameManager {
-  // Use global process-level variable to ensure single instance across all requests
-  if (!global.__gameManagerInstance__) {
-    console.log('Creating new GameManager instance');
-    global.__gameManagerInstance__ = new GameManager();
+function getRoomRegistry(): Map<string, GameManager> {
+  if (!global.__gameManagerRooms__) {
+    global.__gameManagerRooms__ = new Map();
   }
-  return global.__gameManagerInstance__;
+  return global.__gameManagerRooms__;
+}
+
+// Get the GameManager for a room, creating it on first use
+export function getGameManager(roomId: string = DEFAULT_ROOM_ID): GameManager {
+  const rooms = getRoomRegistry();
+  let gameManager = rooms.get(roomId);
+  if (!gameManager) {
+    console.log(`Creating new GameManager instance for room: ${roomId}`);
+    gameManager = new GameManager(roomId);
+    rooms.set(roomId, gameManager);
+  }
+  return gameManager;
+}
+
+// Look up an existing room without creating it (rooms restored from storage count as existing)
+export function findGameManager(roomId: string): GameManager | null {
+  const gameManager = getRoomRegistry().get(roomId);
+  if (gameManager) return gameManager;
+
+  return SessionManager.getInstance().hasRoom(roomId) ? getGameManager(roomId) : null;
+}
+
+// Remove a room from the registry and release its timers and listeners
+export function destroyGameManager(roomId: string): boolean {
+  const rooms = getRoomRegistry();
+  const gameManager = rooms.get(roomId);
+  if (!gameManager) return false;
+
+  gameManager.destroy();
+  rooms.delete(roomId);
+  console.log(`Destroyed GameManager instance for room: ${roomId}`);
+  return true;
+}
+
+export function getActiveRoomIds(): string[] {
+  return Array.from(getRoomRegistry().keys());
 }
 
 export { GameManager };
\ No newline at end of file
@@ -0,0 +1,85 @@
+// Host authorization - signed host token cookie and the shared guard for admin routes
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/types/game';
+import { findGameManager, GameManager } from './game-manager';
+import { getRoomIdFromRequest } from './rooms';
+import { signValue, verifySignedValue } from './signing';
+
+export const HOST_COOKIE_NAME = 'host_token';
+
+interface HostTokenPayload {
+  roomId: string;
+  playerId: string;
+  issuedAt: number;
+}
+
+export interface HostContext {
+  roomId: string;
+  playerId: string;
+  gameManager: GameManager;
+}
+
+export function createHostToken(roomId: string, playerId: string): string {
+  const payload: HostTokenPayload = { roomId, playerId, issuedAt: Date.now() };
+  return signValue(Buffer.from(JSON.stringify(payload)).toString('base64url'));
+}
+
+export function parseHostToken(token: string | null | undefined): HostTokenPayload | null {
+  const payload = verifySignedValue(token);
+  if (!payload) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof parsed.roomId !== 'string' || typeof parsed.playerId !== 'string') {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// Issue the host token as an HttpOnly cookie so client scripts can never read or forge it
+export function setHostCookie(response: NextResponse, roomId: string, playerId: string): void {
+  response.cookies.set(HOST_COOKIE_NAME, createHostToken(roomId, playerId), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 30 * 24 * 60 * 60,
+    path: '/',
+  });
+}
+
+export function clearHostCookie(response: NextResponse): void {
+  response.cookies.set(HOST_COOKIE_NAME, '', { httpOnly: true, maxAge: 0, path: '/' });
+}
+
+function denied(error: string, status: number): NextResponse {
+  return NextResponse.json<ApiResponse>({
+    success: false,
+    error,
+    timestamp: new Date(),
+  }, { status });
+}
+
+// Shared guard for every /api/admin/* route, returns the error response to send back when access is denied.
+// The token only counts while its player is still the room's host, so handing host rights to someone else
+// invalidates the previous host's cookie.
+export function requireHost(request: NextRequest): HostContext | NextResponse {
+  const token = parseHostToken(request.cookies.get(HOST_COOKIE_NAME)?.value);
+  if (!token) {
+    return denied('Host token required', 401);
+  }
+
+  const roomId = getRoomIdFromRequest(request);
+  if (token.roomId !== roomId) {
+    return denied('Host token is not valid for this room', 403);
+  }
+
+  const gameManager = findGameManager(roomId);
+  if (!gameManager || !gameManager.isAdmin(token.playerId)) {
+    return denied('Admin access required', 403);
+  }
+
+  return { roomId, playerId: token.playerId, gameManager };
+}
@@ -0,0 +1,161 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RoundConfig } from '@/types/game';
+import { detectAssistantUsage, generateDraft, validateAssistantConfig } from './llm-adapter';
+
+const roundConfig: RoundConfig = {
+  roundNumber: 1,
+  title: 'Conspiracy Theory Generator',
+  description: 'Create the most ridiculous conspiracy theory',
+  prompt: 'Why do socks disappear?',
+  duration: 3,
+  maxLength: 40,
+};
+
+// Local stand-in for an OpenAI-compatible endpoint, each test decides how it answers
+let respond: (request: http.IncomingMessage, body: any, response: http.ServerResponse) => void;
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    let raw = '';
+    request.on('data', chunk => { raw += chunk; });
+    request.on('end', () => respond(request, raw ? JSON.parse(raw) : null, response));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  server.closeAllConnections();
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+describe('generateDraft', () => {
+  it('sends the prompt and hint and returns the trimmed draft', async () => {
+    let received: { url?: string; authorization?: string; body?: any } = {};
+    respond = (request, body, response) => {
+      received = { url: request.url, authorization: request.headers.authorization, body };
+      sendJson(response, 200, { choices: [{ message: { content: '  The dryer is a portal to a sock dimension, obviously.  ' } }] });
+    };
+
+    const draft = await generateDraft({ baseUrl, model: 'local-model', apiKey: 'secret' }, roundConfig, 'make it short');
+
+    expect(draft).toBe('The dryer is a portal to a sock dimensio'); // cut to the round's maxLength
+    expect(received.url).toBe('/v1/chat/completions');
+    expect(received.authorization).toBe('Bearer secret');
+    expect(received.body.model).toBe('local-model');
+    expect(received.body.messages[1].content).toBe('Why do socks disappear?\n\nmake it short');
+  });
+
+  it('leaves out the Authorization header without an API key', async () => {
+    let authorization: string | undefined = 'unset';
+    respond = (request, _body, response) => {
+      authorization = request.headers.authorization;
+      sendJson(response, 200, { choices: [{ message: { content: 'Socks unionised.' } }] });
+    };
+
+    await generateDraft({ baseUrl, model: 'local-model' }, roundConfig);
+
+    expect(authorization).toBeUndefined();
+  });
+
+  it('fails on a non-200 answer', async () => {
+    respond = (_request, _body, response) => sendJson(response, 503, { error: 'model is loading' });
+
+    await expect(generateDraft({ baseUrl, model: 'local-model' }, roundConfig)).rejects.toThrow('Assistant endpoint answered 503');
+  });
+
+  it('fails when the endpoint returns no choices', async () => {
+    respond = (_request, _body, response) => sendJson(response, 200, { choices: [] });
+
+    await expect(generateDraft({ baseUrl, model: 'local-model' }, roundConfig)).rejects.toThrow('Assistant endpoint returned no draft');
+  });
+
+  it('fails when the draft is only whitespace', async () => {
+    respond = (_request, _body, response) => sendJson(response, 200, { choices: [{ message: { content: '   ' } }] });
+
+    await expect(generateDraft({ baseUrl, model: 'local-model' }, roundConfig)).rejects.toThrow('Assistant endpoint returned no draft');
+  });
+
+  it('gives up after 20 seconds without an answer', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    respond = () => {}; // never answers
+
+    let settled = false;
+    const draft = generateDraft({ baseUrl, model: 'local-model' }, roundConfig).finally(() => { settled = true; });
+    const assertion = expect(draft).rejects.toThrow('Assistant endpoint timed out');
+
+    await vi.advanceTimersByTimeAsync(19_999);
+    expect(settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await assertion;
+  });
+});
+
+describe('validateAssistantConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a loopback endpoint and drops the trailing slash', () => {
+    const { config, errors } = validateAssistantConfig({ baseUrl: 'http://localhost:8080/v1/', model: ' llama ' });
+
+    expect(errors).toEqual([]);
+    expect(config).toEqual({ baseUrl: 'http://localhost:8080/v1', model: 'llama', apiKey: undefined });
+  });
+
+  it('rejects hosts the server has not allowed', () => {
+    const { config, errors } = validateAssistantConfig({ baseUrl: 'http://169.254.169.254/latest', model: 'llama' });
+
+    expect(config).toBeNull();
+    expect(errors[0]).toContain('169.254.169.254 is not allowed');
+  });
+
+  it('allows hosts from ASSISTANT_ALLOWED_HOSTS and ASSISTANT_BASE_URL', () => {
+    vi.stubEnv('ASSISTANT_ALLOWED_HOSTS', 'llm.internal, Api.Example.com');
+    vi.stubEnv('ASSISTANT_BASE_URL', 'http://gpu-box:8080/v1');
+
+    expect(validateAssistantConfig({ baseUrl: 'http://llm.internal/v1', model: 'llama' }).errors).toEqual([]);
+    expect(validateAssistantConfig({ baseUrl: 'https://api.example.com/v1', model: 'gpt' }).errors).toEqual([]);
+    expect(validateAssistantConfig({ baseUrl: 'http://gpu-box:8080/v1', model: 'llama' }).errors).toEqual([]);
+  });
+
+  it('rejects other protocols and a missing model', () => {
+    const { errors } = validateAssistantConfig({ baseUrl: 'file:///etc/passwd', model: '' });
+
+    expect(errors).toEqual(['baseUrl must be an http or https URL', 'model must be a non-empty string']);
+  });
+});
+
+describe('detectAssistantUsage', () => {
+  const draft = 'The government replaced every left sock with a tiny tracking drone.';
+
+  it('spots a draft sent as it is', () => {
+    expect(detectAssistantUsage('  the government replaced every left sock with a tiny tracking drone. ', [draft])).toBe('verbatim');
+  });
+
+  it('spots a lightly edited draft', () => {
+    expect(detectAssistantUsage('Honestly the government replaced every single left sock with a tracking drone lol', [draft])).toBe('edited');
+  });
+
+  it('ignores an unrelated answer that happens to use the same words', () => {
+    expect(detectAssistantUsage('A drone is tiny, the sock is left with the government every time', [draft])).toBeNull();
+  });
+
+  it('does not flag answers against a short draft of common words', () => {
+    expect(detectAssistantUsage('I think it is the dryer, it is always the dryer', ['It is the dryer'])).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+// LLM Adapter - drafts for ai_user players from any OpenAI-compatible chat endpoint (server only)
+import { AssistantConfig, AssistantUsage, RoundConfig } from '@/types/game';
+
+const REQUEST_TIMEOUT_MS = 20 * 1000;
+const MAX_HINT_LENGTH = 200;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Rooms start from the server's endpoint when one is set, e.g. a llama.cpp server on the same machine
+export function getDefaultAssistantConfig(): AssistantConfig | null {
+  const baseUrl = process.env.ASSISTANT_BASE_URL;
+  if (!baseUrl) return null;
+
+  return {
+    baseUrl,
+    model: process.env.ASSISTANT_MODEL || 'local-model',
+    apiKey: process.env.ASSISTANT_API_KEY || undefined,
+  };
+}
+
+// Hosts a room may point its assistant at. The server makes the request and keeps the key, so a room host
+// (in the default room that is simply the first player in) must not be able to aim it anywhere on the network.
+// Loopback and the server's own ASSISTANT_BASE_URL are always allowed, ASSISTANT_ALLOWED_HOSTS adds more, comma separated.
+export function getAllowedAssistantHosts(): string[] {
+  const hosts = [...LOOPBACK_HOSTS];
+  if (process.env.ASSISTANT_BASE_URL) {
+    try {
+      hosts.push(new URL(process.env.ASSISTANT_BASE_URL).hostname);
+    } catch {
+      console.warn(`Ignoring invalid ASSISTANT_BASE_URL: ${process.env.ASSISTANT_BASE_URL}`);
+    }
+  }
+  (process.env.ASSISTANT_ALLOWED_HOSTS || '').split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+    .forEach(host => hosts.push(host));
+  return hosts;
+}
+
+export function validateAssistantConfig(input: unknown): { config: AssistantConfig | null; errors: string[] } {
+  const errors: string[] = [];
+  const raw = input as Record<string, any>;
+
+  if (!raw || typeof raw !== 'object') {
+    return { config: null, errors: ['Assistant config must be an object'] };
+  }
+
+  let baseUrl = '';
+  try {
+    const url = new URL(raw.baseUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      errors.push('baseUrl must be an http or https URL');
+    } else if (!getAllowedAssistantHosts().includes(url.hostname)) {
+      errors.push(`baseUrl host ${url.hostname} is not allowed, the server admin can add it to ASSISTANT_ALLOWED_HOSTS`);
+    }
+    baseUrl = url.toString().replace(/\/+$/, '');
+  } catch (error) {
+    errors.push('baseUrl must be a valid URL, e.g. http://localhost:8080/v1');
+  }
+  if (typeof raw.model !== 'string' || raw.model.trim().length === 0) {
+    errors.push('model must be a non-empty string');
+  }
+  if (raw.apiKey !== undefined && typeof raw.apiKey !== 'string') {
+    errors.push('apiKey must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+  return { config: { baseUrl, model: raw.model.trim(), apiKey: raw.apiKey || undefined }, errors: [] };
+}
+
+// One chat completion, the reply is cut to the round's character limit
+export async function generateDraft(config: AssistantConfig, roundConfig: RoundConfig, hint?: string): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  const messages = [
+    {
+      role: 'system',
+      content: `You are helping a player in a party writing game. Answer the prompt in the same language it is asked in, in at most ${roundConfig.maxLength} characters. Reply with the answer only.`,
+    },
+    {
+      role: 'user',
+      content: hint ? `${roundConfig.prompt}\n\n${hint.slice(0, MAX_HINT_LENGTH)}` : roundConfig.prompt,
+    },
+  ];
+
+  try {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({ model: config.model, messages, temperature: 0.9 }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Assistant endpoint answered ${response.status}`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw new Error('Assistant endpoint returned no draft');
+    }
+    return content.trim().slice(0, roundConfig.maxLength);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Assistant endpoint timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Drafts shorter than this share too many everyday words with any answer to say anything
+const MIN_DRAFT_WORDS = 6;
+const EDITED_SHARE = 0.5;
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+// Share of the draft's consecutive word pairs found in the answer, words only count where their order survived
+function sharedWordPairs(draftWords: string[], contentWords: string[]): number {
+  const pairsOf = (words: string[]) => words.slice(1).map((word, index) => `${words[index]} ${word}`);
+  const draftPairs = pairsOf(draftWords);
+  const available = new Map<string, number>();
+  pairsOf(contentWords).forEach(pair => available.set(pair, (available.get(pair) || 0) + 1));
+
+  let kept = 0;
+  draftPairs.forEach(pair => {
+    const count = available.get(pair) || 0;
+    if (count > 0) {
+      kept++;
+      available.set(pair, count - 1);
+    }
+  });
+  return kept / draftPairs.length;
+}
+
+// Verbatim when the submission is a draft as-is, edited when most of a longer draft's wording survived
+export function detectAssistantUsage(content: string, drafts: string[]): AssistantUsage | null {
+  const normalized = content.trim().toLowerCase();
+  if (drafts.some(draft => draft.trim().toLowerCase() === normalized)) {
+    return 'verbatim';
+  }
+
+  const contentWords = wordsOf(content);
+  const borrowed = drafts.some(draft => {
+    const draftWords = wordsOf(draft);
+    if (draftWords.length < MIN_DRAFT_WORDS) return false;
+    return sharedWordPairs(draftWords, contentWords) >= EDITED_SHARE;
+  });
+  return borrowed ? 'edited' : null;
+}
@@ -1,4 +1,6 @@
 // Offline Game Manager - Handles game flow when internet connection is lost
+import { ROUND_CONFIGS, buildPhaseSequence, getRoundNumberFromPhase } from './game-config';
+
 export class OfflineGameManager {
   private static instance: OfflineGameManager;
   private gameData: any = null;
@@ -138,23 +140,16 @@ export class OfflineGameManager {
   simulatePhaseProgression(): string | null {
     if (!this.gameData) return null;
 
-    const currentPhase = this.gameData.gameState.currentPhase;
-    
-    // Basic phase progression logic for offline mode
-    switch (currentPhase) {
-      case 'round1':
-        return 'round2';
-      case 'round2':
-        return 'round3';
-      case 'round3':
-        return 'voting';
-      case 'voting':
-        return 'results';
-      case 'role_reveal':
-        return 'round1';
-      default:
-        return null;
+    const { currentPhase, roundConfigs, gameMode } = this.gameData.gameState;
+
+    // Basic phase progression logic for offline mode - role reveal through the rounds to voting and results
+    if (currentPhase === 'lobby' || currentPhase === 'results' || currentPhase === 'finished') {
+      return null;
     }
+
+    const phaseOrder = buildPhaseSequence((roundConfigs || ROUND_CONFIGS).length, gameMode);
+    const currentIndex = phaseOrder.indexOf(currentPhase);
+    return currentIndex === -1 ? null : phaseOrder[currentIndex + 1];
   }
 
   // Show offline mode notification to user
@@ -224,7 +219,7 @@ export class OfflineGameManager {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            roundNumber: parseInt(submission.phase.replace('round', '')),
+            roundNumber: getRoundNumberFromPhase(submission.phase),
             answer: submission.submission.answer,
             isOfflineSync: true
           })
@@ -0,0 +1,69 @@
+// Player authentication - signed, room-bound player identity cookies
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/types/game';
+import { getGameManager, GameManager } from './game-manager';
+import { PLAYER_COOKIE_NAME } from './player-cookie';
+import { ROOM_COOKIE_NAME, getRoomIdFromRequest } from './rooms';
+import { signValue, verifySignedValue } from './signing';
+
+export interface PlayerIdentity {
+  playerId: string;
+  roomId: string;
+}
+
+export interface PlayerContext extends PlayerIdentity {
+  gameManager: GameManager;
+}
+
+export function createPlayerToken(playerId: string, roomId: string): string {
+  return signValue(`${playerId}.${roomId}`);
+}
+
+export function parsePlayerToken(token: string | null | undefined): PlayerIdentity | null {
+  const payload = verifySignedValue(token);
+  if (!payload) return null;
+
+  const [playerId, roomId, ...rest] = payload.split('.');
+  if (!playerId || !roomId || rest.length > 0) return null;
+
+  return { playerId, roomId };
+}
+
+// Verified identity for the room this request targets, null for missing, forged or cross-room cookies
+export function getPlayerIdentity(request: NextRequest): PlayerIdentity | null {
+  const identity = parsePlayerToken(request.cookies.get(PLAYER_COOKIE_NAME)?.value);
+  if (!identity || identity.roomId !== getRoomIdFromRequest(request)) {
+    return null;
+  }
+  return identity;
+}
+
+// Shared guard for player routes, returns the error response to send back when the cookie is not valid
+export function authenticatePlayer(request: NextRequest): PlayerContext | NextResponse {
+  const identity = getPlayerIdentity(request);
+  if (!identity) {
+    console.log('Player authentication failed: missing, unsigned or forged player cookie');
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Invalid player session. Please rejoin the game.',
+      timestamp: new Date(),
+    }, { status: 401 });
+  }
+
+  return { ...identity, gameManager: getGameManager(identity.roomId) };
+}
+
+// Persist the signed player id and the room id on the response so later requests land in the same room
+export function setPlayerCookies(response: NextResponse, playerId: string, roomId: string): void {
+  const cookieOptions = {
+    httpOnly: false, // Allow client-side access
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const, // Changed from strict to lax for better compatibility
+    maxAge: 30 * 24 * 60 * 60, // 30 days for persistent sessions
+    path: '/', // Explicitly set path
+    domain: process.env.NODE_ENV === 'production' ? undefined : 'localhost', // Let browser handle domain in production
+  };
+
+  response.cookies.set(PLAYER_COOKIE_NAME, createPlayerToken(playerId, roomId), cookieOptions);
+  response.cookies.set(ROOM_COOKIE_NAME, roomId, cookieOptions);
+}
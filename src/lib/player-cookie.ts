@@ -0,0 +1,21 @@
+// Player cookie format - shared by the server-side signer and client-side readers
+export const PLAYER_COOKIE_NAME = 'player_id';
+
+// The signed cookie value is "<playerId>.<roomId>.<signature>", player ids never contain dots
+export function getPlayerIdFromCookieValue(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const playerId = decodeURIComponent(value).split('.')[0];
+  return playerId || null;
+}
+
+// Read the current player's id in the browser (the signature is only checked server-side)
+export function getCurrentPlayerId(): string | null {
+  if (typeof document === 'undefined') return null;
+
+  const value = `; ${document.cookie}`;
+  const parts = value.split(`; ${PLAYER_COOKIE_NAME}=`);
+  if (parts.length === 2) {
+    return getPlayerIdFromCookieValue(parts.pop()?.split(';').shift());
+  }
+  return null;
+}
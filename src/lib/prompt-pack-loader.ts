@@ -0,0 +1,64 @@
+// Prompt Pack Loader - built-in packs plus any JSON packs found in PROMPT_PACKS_DIR (server only)
+import fs from 'fs';
+import path from 'path';
+import { PromptPack, PromptPackSummary } from '@/types/game';
+import { BUILT_IN_PROMPT_PACKS, DEFAULT_PROMPT_PACK_ID, validatePromptPack, toPromptPackSummary } from './prompt-packs';
+
+let loadedPacks: Map<string, PromptPack> | null = null;
+
+function addPack(packs: Map<string, PromptPack>, input: unknown, source: string): void {
+  const { pack, errors } = validatePromptPack(input);
+  if (!pack) {
+    console.warn(`Skipping prompt pack ${source}:\n  ${errors.join('\n  ')}`);
+    return;
+  }
+  if (packs.has(pack.id)) {
+    console.warn(`Skipping prompt pack ${source}: id "${pack.id}" is already taken`);
+    return;
+  }
+  packs.set(pack.id, pack);
+}
+
+function loadPromptPacks(): Map<string, PromptPack> {
+  const packs = new Map<string, PromptPack>();
+  BUILT_IN_PROMPT_PACKS.forEach(pack => addPack(packs, pack, `built-in "${pack.id}"`));
+
+  const dir = process.env.PROMPT_PACKS_DIR;
+  if (dir) {
+    try {
+      const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+      for (const file of files) {
+        const filePath = path.join(dir, file);
+        try {
+          addPack(packs, JSON.parse(fs.readFileSync(filePath, 'utf8')), filePath);
+        } catch (error) {
+          console.warn(`Skipping prompt pack ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to read PROMPT_PACKS_DIR ${dir}:`, error);
+    }
+  }
+
+  console.log(`Loaded ${packs.size} prompt packs: ${Array.from(packs.keys()).join(', ')}`);
+  return packs;
+}
+
+function getLoadedPacks(): Map<string, PromptPack> {
+  if (!loadedPacks) {
+    loadedPacks = loadPromptPacks();
+  }
+  return loadedPacks;
+}
+
+export function getPromptPack(id: string): PromptPack | null {
+  return getLoadedPacks().get(id) || null;
+}
+
+export function getDefaultPromptPack(): PromptPack {
+  return getPromptPack(DEFAULT_PROMPT_PACK_ID)!;
+}
+
+export function listPromptPacks(): PromptPackSummary[] {
+  return Array.from(getLoadedPacks().values()).map(toPromptPackSummary);
+}
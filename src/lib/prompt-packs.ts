@@ -0,0 +1,147 @@
+// Prompt Packs - validation and conversion of JSON round packs (safe to import on the client)
+import { PromptPack, PromptPackRound, PromptPackSummary, RoundConfig } from '@/types/game';
+import classicPack from './prompt-packs/classic.json';
+import quickPack from './prompt-packs/quick.json';
+import internetCulturePack from './prompt-packs/internet-culture.json';
+import marathonPack from './prompt-packs/marathon.json';
+
+export const DEFAULT_PROMPT_PACK_ID = 'classic';
+export const CUSTOM_PROMPT_PACK_ID = 'custom'; // rounds written by the host in the lobby
+export const MAX_PROMPT_PACK_ROUNDS = 20;
+
+export const MIN_ROUND_DURATION = 0.5; // minutes
+export const MAX_ROUND_DURATION = 30; // minutes
+export const MIN_MAX_LENGTH = 20;
+export const MAX_MAX_LENGTH = 1000;
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export const BUILT_IN_PROMPT_PACKS: PromptPack[] = [
+  classicPack as PromptPack,
+  quickPack as PromptPack,
+  internetCulturePack as PromptPack,
+  marathonPack as PromptPack,
+];
+
+export interface PromptPackValidation {
+  pack: PromptPack | null;
+  errors: string[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Check an untrusted pack (a JSON file or a host upload) and collect every problem instead of stopping at the first one
+export function validatePromptPack(input: unknown): PromptPackValidation {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { pack: null, errors: ['Prompt pack must be a JSON object'] };
+  }
+
+  const raw = input as Record<string, any>;
+
+  if (typeof raw.id !== 'string' || !PACK_ID_PATTERN.test(raw.id)) {
+    errors.push('id must be 1-40 lowercase letters, digits or dashes');
+  }
+  if (!isNonEmptyString(raw.name)) {
+    errors.push('name must be a non-empty string');
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (!Array.isArray(raw.rounds)) {
+    errors.push('rounds must be an array');
+  } else {
+    if (raw.rounds.length === 0) {
+      errors.push('rounds must contain at least one round');
+    }
+    if (raw.rounds.length > MAX_PROMPT_PACK_ROUNDS) {
+      errors.push(`rounds can contain at most ${MAX_PROMPT_PACK_ROUNDS} rounds (got ${raw.rounds.length})`);
+    }
+
+    raw.rounds.forEach((round: any, index: number) => {
+      const at = `rounds[${index}]`;
+      if (!round || typeof round !== 'object') {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(round.title)) {
+        errors.push(`${at}.title must be a non-empty string`);
+      }
+      if (round.description !== undefined && typeof round.description !== 'string') {
+        errors.push(`${at}.description must be a string`);
+      }
+      if (!round.prompt || typeof round.prompt !== 'object') {
+        errors.push(`${at}.prompt must be an object with tr and en texts`);
+      } else {
+        if (!isNonEmptyString(round.prompt.tr)) {
+          errors.push(`${at}.prompt.tr must be a non-empty string`);
+        }
+        if (!isNonEmptyString(round.prompt.en)) {
+          errors.push(`${at}.prompt.en must be a non-empty string`);
+        }
+      }
+      if (typeof round.duration !== 'number' || round.duration < MIN_ROUND_DURATION || round.duration > MAX_ROUND_DURATION) {
+        errors.push(`${at}.duration must be between ${MIN_ROUND_DURATION} and ${MAX_ROUND_DURATION} minutes`);
+      }
+      if (!Number.isInteger(round.maxLength) || round.maxLength < MIN_MAX_LENGTH || round.maxLength > MAX_MAX_LENGTH) {
+        errors.push(`${at}.maxLength must be a whole number between ${MIN_MAX_LENGTH} and ${MAX_MAX_LENGTH}`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+
+  // Rebuild the pack so unknown fields never reach the game state
+  const pack: PromptPack = {
+    id: raw.id,
+    name: raw.name.trim(),
+    description: (raw.description || '').trim(),
+    rounds: raw.rounds.map((round: any) => ({
+      title: round.title.trim(),
+      description: (round.description || '').trim(),
+      prompt: { tr: round.prompt.tr.trim(), en: round.prompt.en.trim() },
+      duration: round.duration,
+      maxLength: round.maxLength,
+    })),
+  };
+  return { pack, errors: [] };
+}
+
+// Turn a pack into the RoundConfig list the game runs on, rounds are numbered from 1 in pack order
+export function promptPackToRoundConfigs(pack: PromptPack): RoundConfig[] {
+  return pack.rounds.map((round, index) => ({
+    roundNumber: index + 1,
+    title: round.title,
+    description: round.description,
+    prompt: `TR: ${round.prompt.tr}\n\nEN: ${round.prompt.en}`,
+    duration: round.duration,
+    maxLength: round.maxLength,
+  }));
+}
+
+// Inverse of promptPackToRoundConfigs, used by the host prompt editor to start from the room's current rounds
+export function roundConfigToPromptPackRound(config: RoundConfig): PromptPackRound {
+  const match = /^TR: ([\s\S]*)\n\nEN: ([\s\S]*)$/.exec(config.prompt);
+  return {
+    title: config.title,
+    description: config.description,
+    prompt: match ? { tr: match[1], en: match[2] } : { tr: config.prompt, en: config.prompt },
+    duration: config.duration,
+    maxLength: config.maxLength,
+  };
+}
+
+export function toPromptPackSummary(pack: PromptPack): PromptPackSummary {
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    roundCount: pack.rounds.length,
+  };
+}
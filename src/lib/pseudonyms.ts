@@ -0,0 +1,68 @@
+// Pseudonyms - anonymous voting boards, the real authors stay on the server until results
+import { AnonymousVotingBoard, Submission } from '@/types/game';
+
+// Fisher-Yates with crypto randomness, the order must not be guessable from the client
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const array = new Uint32Array(1);
+    crypto.getRandomValues(array);
+    const j = array[0] % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// "Writer A".."Writer Z", numbered past that
+function pseudonymAt(index: number): string {
+  return index < 26 ? `Writer ${String.fromCharCode(65 + index)}` : `Writer ${index + 1}`;
+}
+
+// One pseudonym per player for the whole game, so writing style can still be followed across rounds
+export function assignPseudonyms(playerIds: string[]): Record<string, string> {
+  const pseudonyms: Record<string, string> = {};
+  shuffle(playerIds).forEach((playerId, index) => {
+    pseudonyms[playerId] = pseudonymAt(index);
+  });
+  return pseudonyms;
+}
+
+// A fresh display order for every round, so position doesn't give authors away either
+export function shuffleBoardOrder(pseudonyms: Record<string, string>, roundCount: number): Record<number, string[]> {
+  const order: Record<number, string[]> = {};
+  for (let roundNumber = 1; roundNumber <= roundCount; roundNumber++) {
+    order[roundNumber] = shuffle(Object.values(pseudonyms));
+  }
+  return order;
+}
+
+// Submissions with player ids, names, ids and timestamps stripped
+export function buildVotingBoard(
+  submissions: Record<number, Submission[]>,
+  pseudonyms: Record<string, string>,
+  boardOrder: Record<number, string[]>
+): AnonymousVotingBoard {
+  const board: AnonymousVotingBoard = {
+    pseudonyms: Object.values(pseudonyms).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+    submissions: {},
+  };
+
+  Object.entries(submissions).forEach(([round, roundSubmissions]) => {
+    const roundNumber = parseInt(round);
+    const order = boardOrder[roundNumber] || [];
+    board.submissions[roundNumber] = roundSubmissions
+      .filter(submission => pseudonyms[submission.playerId])
+      .map(submission => {
+        const pseudonym = pseudonyms[submission.playerId];
+        return {
+          id: `${pseudonym}-${roundNumber}`,
+          pseudonym,
+          roundNumber,
+          content: submission.content,
+        };
+      })
+      .sort((a, b) => order.indexOf(a.pseudonym) - order.indexOf(b.pseudonym));
+  });
+
+  return board;
+}
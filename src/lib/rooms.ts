@@ -0,0 +1,53 @@
+// Room helpers - shared room id handling for API routes and the game manager registry
+import type { NextRequest } from 'next/server';
+
+export const DEFAULT_ROOM_ID = 'main';
+export const ROOM_COOKIE_NAME = 'room_id';
+
+const ROOM_ID_PATTERN = /^[A-Z0-9]{3,12}$/;
+
+// Room codes skip look-alike characters (0/O, 1/I/L) so they can be read aloud or off a screen
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 4;
+const MAX_CODE_ATTEMPTS = 50;
+
+// Normalize a user-supplied room id, returns null if it is not a valid room id
+export function normalizeRoomId(roomId: string | null | undefined): string | null {
+  if (!roomId) return null;
+
+  const trimmed = roomId.trim();
+  if (trimmed.toLowerCase() === DEFAULT_ROOM_ID) {
+    return DEFAULT_ROOM_ID;
+  }
+
+  const upper = trimmed.toUpperCase();
+  return ROOM_ID_PATTERN.test(upper) ? upper : null;
+}
+
+// Resolve the room a request targets: explicit ?room= param first, then the room cookie
+export function getRoomIdFromRequest(request: NextRequest): string {
+  const fromQuery = normalizeRoomId(request.nextUrl.searchParams.get('room'));
+  if (fromQuery) return fromQuery;
+
+  const fromCookie = normalizeRoomId(request.cookies.get(ROOM_COOKIE_NAME)?.value);
+  return fromCookie || DEFAULT_ROOM_ID;
+}
+
+// Mint a short human-readable room code that is not already in use
+export function generateRoomCode(isTaken: (code: string) => boolean): string {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const bytes = new Uint8Array(ROOM_CODE_LENGTH);
+    crypto.getRandomValues(bytes);
+
+    let code = '';
+    for (const byte of bytes) {
+      code += ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length];
+    }
+
+    if (code !== DEFAULT_ROOM_ID.toUpperCase() && !isTaken(code)) {
+      return code;
+    }
+  }
+
+  throw new Error('Could not generate a unique room code');
+}
@@ -0,0 +1,230 @@
+// Scoring - composable point rules and the presets a host can pick per room
+import {
+  CalibrationBucket,
+  MachineVerdict,
+  Player,
+  PlayerRole,
+  PlayerScore,
+  ScoreBreakdownEntry,
+  ScoringPresetId,
+  ScoringPresetSummary,
+  ScoringRuleId,
+  Submission,
+  Vote,
+  VotingResults,
+} from '@/types/game';
+import { POINTS_CONFIG, VOTE_CONFIDENCE } from './game-config';
+import { isMachineRight } from './stylometry';
+
+export const DEFAULT_SCORING_PRESET: ScoringPresetId = 'classic';
+
+// Everything a rule may look at for one player
+export interface ScoringContext {
+  player: Player;
+  votesCast: Vote[];
+  correctGuesses: number;
+  accuracy: number; // 0..1 share of this player's votes that were right
+  votingResult: VotingResults;
+  submissions: Submission[];
+  roundStartedAt: Record<number, Date>;
+  roundDurations: Record<number, number>; // minutes
+  actualRoles: Record<string, PlayerRole>; // every participant's role, to judge this player's votes
+  machineVerdicts: Record<string, MachineVerdict>; // playerId -> the machine judge's verdict
+}
+
+interface ScoringRule {
+  label: string;
+  // subtotal holds the points from the rules applied before this one
+  score(context: ScoringContext, subtotal: number): number;
+}
+
+// Bonus shrinks linearly from the full amount at the round start to nothing at the round end
+function earlySubmissionBonus(context: ScoringContext): number {
+  return context.submissions.reduce((total, submission) => {
+    const startedAt = context.roundStartedAt[submission.roundNumber];
+    const durationMs = (context.roundDurations[submission.roundNumber] || 0) * 60 * 1000;
+    if (!startedAt || durationMs <= 0) return total;
+
+    const elapsed = new Date(submission.submittedAt).getTime() - new Date(startedAt).getTime();
+    const remainingShare = Math.max(0, Math.min(1, 1 - elapsed / durationMs));
+    return total + Math.round(POINTS_CONFIG.EARLY_SUBMISSION_BONUS * remainingShare);
+  }, 0);
+}
+
+// Brier score of one vote, the squared gap between the stated confidence and what actually happened
+function voteBrierScore(vote: Vote, actualRoles: Record<string, PlayerRole>): number {
+  const probability = (vote.confidence || VOTE_CONFIDENCE.MIN) / 100;
+  const outcome = actualRoles[vote.targetPlayerId] === vote.predictedRole ? 1 : 0;
+  return (probability - outcome) ** 2;
+}
+
+// A coin flip scores 0 either way (Brier 0.25), certainty pays the full bonus when right and triple it as a penalty when wrong
+function calibrationPoints(context: ScoringContext): number {
+  return context.votesCast.reduce(
+    (total, vote) => total + Math.round(POINTS_CONFIG.CALIBRATION_BONUS * (1 - 4 * voteBrierScore(vote, context.actualRoles))),
+    0
+  );
+}
+
+// Votes where the player saw through someone the machine judge misread
+function beatTheMachinePoints(context: ScoringContext): number {
+  return context.votesCast.filter(vote => {
+    const actualRole = context.actualRoles[vote.targetPlayerId];
+    return actualRole === vote.predictedRole && !isMachineRight(context.machineVerdicts[vote.targetPlayerId], actualRole);
+  }).length * POINTS_CONFIG.BEAT_THE_MACHINE_BONUS;
+}
+
+const CALIBRATION_BUCKET_RANGES: Array<[number, number]> = [[50, 59], [60, 69], [70, 79], [80, 89], [90, 100]];
+
+export function summarizeCalibration(votes: Vote[], actualRoles: Record<string, PlayerRole>): { brierScore: number | null; calibration: CalibrationBucket[] } {
+  const calibration = CALIBRATION_BUCKET_RANGES.map(([minConfidence, maxConfidence]) => {
+    const bucketVotes = votes.filter(vote => {
+      const confidence = vote.confidence || VOTE_CONFIDENCE.MIN;
+      return confidence >= minConfidence && confidence <= maxConfidence;
+    });
+    return {
+      minConfidence,
+      maxConfidence,
+      votes: bucketVotes.length,
+      correct: bucketVotes.filter(vote => actualRoles[vote.targetPlayerId] === vote.predictedRole).length,
+    };
+  });
+
+  const brierScore = votes.length > 0
+    ? Math.round((votes.reduce((sum, vote) => sum + voteBrierScore(vote, actualRoles), 0) / votes.length) * 1000) / 1000
+    : null;
+
+  return { brierScore, calibration };
+}
+
+const SCORING_RULES: Record<ScoringRuleId, ScoringRule> = {
+  correct_guesses: {
+    label: 'Correct guesses',
+    score: context => context.correctGuesses * POINTS_CONFIG.CORRECT_GUESS,
+  },
+  hidden_role: {
+    label: 'Hidden role',
+    score: context => (context.votingResult.mostVotedRole === context.player.role ? 0 : POINTS_CONFIG.ROLE_HIDDEN_BONUS),
+  },
+  early_submission: {
+    label: 'Early submissions',
+    score: earlySubmissionBonus,
+  },
+  participation: {
+    label: 'Participation',
+    score: context => (context.submissions.length > 0 || context.votesCast.length > 0 ? POINTS_CONFIG.PARTICIPATION_BONUS : 0),
+  },
+  accuracy: {
+    label: 'Accuracy multiplier',
+    score: (context, subtotal) => Math.round(subtotal * context.accuracy * POINTS_CONFIG.ACCURACY_MULTIPLIER),
+  },
+  calibration: {
+    label: 'Calibration',
+    score: calibrationPoints,
+  },
+  beat_the_machine: {
+    label: 'Beat the machine',
+    score: beatTheMachinePoints,
+  },
+};
+
+interface ScoringPreset extends ScoringPresetSummary {
+  rules: Array<{ rule: ScoringRuleId; weight: number }>;
+}
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringPreset> = {
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Spot roles, stay hidden and answer early',
+    rules: [
+      { rule: 'correct_guesses', weight: 1 },
+      { rule: 'hidden_role', weight: 1 },
+      { rule: 'early_submission', weight: 1 },
+      { rule: 'participation', weight: 1 },
+      { rule: 'accuracy', weight: 1 },
+      { rule: 'calibration', weight: 1 },
+      { rule: 'beat_the_machine', weight: 1 },
+    ],
+  },
+  detective: {
+    id: 'detective',
+    name: 'Detective',
+    description: 'Only spotting roles counts, and knowing when you are sure',
+    rules: [
+      { rule: 'correct_guesses', weight: 1 },
+      { rule: 'accuracy', weight: 1 },
+      { rule: 'calibration', weight: 2 },
+      { rule: 'beat_the_machine', weight: 1 },
+    ],
+  },
+  deceiver: {
+    id: 'deceiver',
+    name: 'Deceiver',
+    description: 'Staying hidden is worth three times as much',
+    rules: [
+      { rule: 'correct_guesses', weight: 1 },
+      { rule: 'hidden_role', weight: 3 },
+      { rule: 'participation', weight: 1 },
+    ],
+  },
+  speed: {
+    id: 'speed',
+    name: 'Speed Round',
+    description: 'Fast answers earn big bonuses',
+    rules: [
+      { rule: 'correct_guesses', weight: 1 },
+      { rule: 'early_submission', weight: 5 },
+      { rule: 'participation', weight: 1 },
+    ],
+  },
+};
+
+export function isScoringPresetId(value: unknown): value is ScoringPresetId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCORING_PRESETS, value);
+}
+
+export function listScoringPresets(): ScoringPresetSummary[] {
+  return Object.values(SCORING_PRESETS).map(({ id, name, description }) => ({ id, name, description }));
+}
+
+// The single most voted role, or no consensus when nobody voted or the top roles tie
+export function findConsensus(roleCounts: Record<PlayerRole, number>): Pick<VotingResults, 'mostVotedRole' | 'noConsensusReason'> {
+  const ranked = (Object.entries(roleCounts) as Array<[PlayerRole, number]>).sort((a, b) => b[1] - a[1]);
+  const [top, runnerUp] = ranked;
+
+  if (!top || top[1] === 0) {
+    return { mostVotedRole: null, noConsensusReason: 'no_votes' };
+  }
+  if (runnerUp && runnerUp[1] === top[1]) {
+    return { mostVotedRole: null, noConsensusReason: 'tie' };
+  }
+  return { mostVotedRole: top[0] };
+}
+
+// Run the preset's rules in order and keep each rule's share for the results screen
+export function scorePlayer(presetId: ScoringPresetId, context: ScoringContext): { points: number; breakdown: ScoreBreakdownEntry[] } {
+  const preset = SCORING_PRESETS[presetId] || SCORING_PRESETS[DEFAULT_SCORING_PRESET];
+  const breakdown: ScoreBreakdownEntry[] = [];
+  let points = 0;
+
+  for (const { rule, weight } of preset.rules) {
+    const rulePoints = Math.round(SCORING_RULES[rule].score(context, points) * weight);
+    breakdown.push({ rule, label: SCORING_RULES[rule].label, points: rulePoints });
+    points += rulePoints;
+  }
+
+  return { points, breakdown };
+}
+
+// Highest score first, equal scores share a rank (1, 1, 3)
+export function rankScores(scores: Omit<PlayerScore, 'rank'>[]): PlayerScore[] {
+  const sorted = [...scores].sort((a, b) => b.points - a.points);
+  let rank = 0;
+  return sorted.map((score, index) => {
+    if (index === 0 || score.points !== sorted[index - 1].points) {
+      rank = index + 1;
+    }
+    return { ...score, rank };
+  });
+}
@@ -1,5 +1,8 @@
 // Session Manager - Handles persistent sessions and room state
 import { GameState, Player } from '@/types/game';
+import { DEFAULT_ROOM_ID } from './rooms';
+import { StorageAdapter, getStorageAdapter } from './storage-adapter';
+import { destroyGameManager } from './game-manager';
 
 interface SessionData {
   playerId: string;
@@ -39,8 +42,23 @@ interface RoomData {
   };
 }
 
+// Shape of a room as written to the storage adapter (backup and integrity are rebuilt on load)
+interface StoredRoom {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  sessions: Map<string, SessionData>;
+  gameState: GameState | null;
+  adminSession?: string;
+  version: number;
+}
+
+declare global {
+  var __sessionManagerInstance__: SessionManager | undefined;
+}
+
 class SessionManager {
-  private static instance: SessionManager;
+  private storage: StorageAdapter;
   private rooms: Map<string, RoomData> = new Map();
   private playerSessions: Map<string, string> = new Map(); // playerId -> roomId
   private sessionCleanupInterval: NodeJS.Timeout | null = null;
@@ -58,6 +76,8 @@ class SessionManager {
   private integrityTimer: NodeJS.Timeout | null = null;
 
   constructor() {
+    this.storage = getStorageAdapter();
+    this.hydrateFromStorage();
     this.startCleanupTimer();
     this.startBackupTimer();
     this.startIntegrityTimer();
@@ -109,6 +129,7 @@ class SessionManager {
       room.sessions = new Map(room.backup.sessionBackup);
       room.gameState = room.backup.gameState ? { ...room.backup.gameState } : null;
       this.updateRoomIntegrity(room);
+      this.persistRoom(room);
       console.log(`Restored room ${room.id} from backup`);
       return true;
     } catch (error) {
@@ -128,15 +149,73 @@ class SessionManager {
     };
   }
 
+  // Load every persisted room so games survive restarts and cold starts
+  private hydrateFromStorage(): void {
+    try {
+      const storedRooms = this.storage.list<StoredRoom>('rooms');
+      for (const { value: stored } of storedRooms) {
+        const room: RoomData = {
+          ...stored,
+          sessions: new Map(stored.sessions),
+          backup: null,
+          integrity: {
+            checksum: '',
+            lastVerified: Date.now()
+          }
+        };
+        this.updateRoomIntegrity(room);
+        this.rooms.set(room.id, room);
+
+        for (const playerId of room.sessions.keys()) {
+          this.playerSessions.set(playerId, room.id);
+        }
+      }
+
+      if (storedRooms.length > 0) {
+        console.log(`Hydrated ${storedRooms.length} rooms from ${this.storage.kind} storage`);
+      }
+    } catch (error) {
+      console.error('Failed to hydrate sessions from storage:', error);
+    }
+  }
+
+  // Write a room through to the storage adapter
+  private persistRoom(room: RoomData): void {
+    const stored: StoredRoom = {
+      id: room.id,
+      createdAt: room.createdAt,
+      lastActivity: room.lastActivity,
+      sessions: room.sessions,
+      gameState: room.gameState,
+      adminSession: room.adminSession,
+      version: room.version
+    };
+
+    try {
+      this.storage.set('rooms', room.id, stored);
+    } catch (error) {
+      console.error(`Failed to persist room ${room.id}:`, error);
+    }
+  }
+
+  // Process-level instance so every route bundle shares the same sessions
   static getInstance(): SessionManager {
-    if (!SessionManager.instance) {
-      SessionManager.instance = new SessionManager();
+    if (!global.__sessionManagerInstance__) {
+      global.__sessionManagerInstance__ = new SessionManager();
     }
-    return SessionManager.instance;
+    return global.__sessionManagerInstance__;
+  }
+
+  hasRoom(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  getRoomCount(): number {
+    return this.rooms.size;
   }
 
   // Create or get existing room
-  getOrCreateRoom(roomId: string = 'main'): RoomData {
+  getOrCreateRoom(roomId: string = DEFAULT_ROOM_ID): RoomData {
     if (!this.rooms.has(roomId)) {
       const room: RoomData = {
         id: roomId,
@@ -153,6 +232,7 @@ class SessionManager {
       };
       this.updateRoomIntegrity(room);
       this.rooms.set(roomId, room);
+      this.persistRoom(room);
       console.log(`Created new room: ${roomId}`);
     }
 
@@ -179,7 +259,7 @@ class SessionManager {
     playerId: string, 
     playerName: string, 
     isAdmin: boolean = false,
-    roomId: string = 'main'
+    roomId: string = DEFAULT_ROOM_ID
   ): SessionData {
     const room = this.getOrCreateRoom(roomId);
     
@@ -236,6 +316,7 @@ class SessionManager {
 
     room.lastActivity = Date.now();
     this.updateRoomIntegrity(room);
+    this.persistRoom(room);
     
     return session;
   }
@@ -251,6 +332,11 @@ class SessionManager {
     return room.sessions.get(playerId) || null;
   }
 
+  // Which room a player's session belongs to
+  getSessionRoomId(playerId: string): string | null {
+    return this.playerSessions.get(playerId) || null;
+  }
+
   // Update session last seen
   updateSessionActivity(playerId: string): void {
     const roomId = this.playerSessions.get(playerId);
@@ -263,27 +349,32 @@ class SessionManager {
     if (session) {
       session.lastSeen = Date.now();
       room.lastActivity = Date.now();
+      // Activity is flushed to storage by the backup timer rather than on every request
+      this.updateRoomIntegrity(room);
     }
   }
 
   // Save game state to room
-  saveGameState(gameState: GameState, roomId: string = 'main'): void {
+  saveGameState(gameState: GameState, roomId: string = DEFAULT_ROOM_ID): void {
     const room = this.rooms.get(roomId);
     if (room) {
-      room.gameState = { ...gameState };
+      // Deep copy so later in-place changes to the live state can't break the integrity checksum
+      room.gameState = structuredClone(gameState);
       room.lastActivity = Date.now();
+      this.updateRoomIntegrity(room);
+      this.persistRoom(room);
       console.log(`Saved game state for room: ${roomId}, phase: ${gameState.currentPhase}`);
     }
   }
 
   // Get saved game state
-  getGameState(roomId: string = 'main'): GameState | null {
+  getGameState(roomId: string = DEFAULT_ROOM_ID): GameState | null {
     const room = this.rooms.get(roomId);
-    return room?.gameState || null;
+    return room?.gameState ? structuredClone(room.gameState) : null;
   }
 
   // Get all active sessions in room
-  getActiveSessions(roomId: string = 'main'): SessionData[] {
+  getActiveSessions(roomId: string = DEFAULT_ROOM_ID): SessionData[] {
     const room = this.rooms.get(roomId);
     if (!room) return [];
 
@@ -300,7 +391,7 @@ class SessionManager {
   }
 
   // Get active players for game
-  getActivePlayers(roomId: string = 'main'): Player[] {
+  getActivePlayers(roomId: string = DEFAULT_ROOM_ID): Player[] {
     const sessions = this.getActiveSessions(roomId);
     return sessions
       .filter(s => !s.isAdmin)
@@ -316,7 +407,7 @@ class SessionManager {
   }
 
   // Get admin player
-  getAdminPlayer(roomId: string = 'main'): Player | null {
+  getAdminPlayer(roomId: string = DEFAULT_ROOM_ID): Player | null {
     const room = this.rooms.get(roomId);
     if (!room || !room.adminSession) return null;
 
@@ -352,16 +443,60 @@ class SessionManager {
     }
 
     room.lastActivity = Date.now();
+    this.updateRoomIntegrity(room);
+    this.persistRoom(room);
     console.log(`Removed session for player: ${playerId}`);
   }
 
+  // Move the room's admin flag to another player's session
+  setAdminSession(roomId: string, playerId: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+
+    const nextAdmin = room.sessions.get(playerId);
+    if (!nextAdmin) return false;
+
+    if (room.adminSession) {
+      const previousAdmin = room.sessions.get(room.adminSession);
+      if (previousAdmin) {
+        previousAdmin.isAdmin = false;
+        previousAdmin.checksum = this.generateChecksum(previousAdmin);
+      }
+    }
+
+    nextAdmin.isAdmin = true;
+    nextAdmin.checksum = this.generateChecksum(nextAdmin);
+    room.adminSession = playerId;
+    room.lastActivity = Date.now();
+    this.updateRoomIntegrity(room);
+    this.persistRoom(room);
+
+    console.log(`Admin session moved to player: ${playerId} in room: ${roomId}`);
+    return true;
+  }
+
+  // Remove a room and every session that belongs to it
+  removeRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    for (const playerId of room.sessions.keys()) {
+      this.playerSessions.delete(playerId);
+    }
+
+    this.rooms.delete(roomId);
+    this.storage.delete('rooms', roomId);
+    console.log(`Removed room: ${roomId}`);
+  }
+
   // Check if player can rejoin game
-  canRejoinGame(playerId: string): boolean {
+  canRejoinGame(playerId: string, expectedRoomId?: string): boolean {
     const session = this.getSession(playerId);
     if (!session) return false;
 
     const roomId = this.playerSessions.get(playerId);
     if (!roomId) return false;
+    if (expectedRoomId && roomId !== expectedRoomId) return false;
 
     const gameState = this.getGameState(roomId);
     if (!gameState) return false;
@@ -405,10 +540,16 @@ class SessionManager {
         }
       }
 
-      // Clean up empty rooms
+      // Clean up empty rooms, their GameManager goes too so its timers and listeners don't outlive them
       if (room.sessions.size === 0 && now - room.lastActivity > this.ROOM_TIMEOUT) {
         this.rooms.delete(roomId);
+        this.storage.delete('rooms', roomId);
+        this.storage.delete('game_data', roomId);
+        destroyGameManager(roomId);
         cleanedRooms++;
+      } else if (expiredSessions.length > 0) {
+        this.updateRoomIntegrity(room);
+        this.persistRoom(room);
       }
     }
 
@@ -439,6 +580,7 @@ class SessionManager {
     for (const room of this.rooms.values()) {
       if (room.sessions.size > 0 || room.gameState) {
         this.createBackup(room);
+        this.persistRoom(room);
       }
     }
   }
@@ -466,7 +608,7 @@ class SessionManager {
   }
 
   // Get room stats
-  getRoomStats(roomId: string = 'main'): {
+  getRoomStats(roomId: string = DEFAULT_ROOM_ID): {
     totalSessions: number;
     activeSessions: number;
     adminPresent: boolean;
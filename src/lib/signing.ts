@@ -0,0 +1,45 @@
+// Token signing - HMAC helpers shared by the host and player cookies
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+declare global {
+  var __tokenSigningSecret__: string | undefined;
+}
+
+// Use a configured secret when available, otherwise a random one that lives as long as the process
+function getSigningSecret(): string {
+  if (process.env.TOKEN_SIGNING_SECRET) {
+    return process.env.TOKEN_SIGNING_SECRET;
+  }
+
+  if (!global.__tokenSigningSecret__) {
+    console.warn('TOKEN_SIGNING_SECRET not set, using a per-process secret (player and host cookies will not survive restarts, set it when using GAME_STORAGE=file or sqlite)');
+    global.__tokenSigningSecret__ = randomBytes(32).toString('hex');
+  }
+  return global.__tokenSigningSecret__;
+}
+
+function computeSignature(payload: string): string {
+  return createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+}
+
+// Produce "<payload>.<signature>"
+export function signValue(payload: string): string {
+  return `${payload}.${computeSignature(payload)}`;
+}
+
+// Returns the payload if the signature matches, null otherwise
+export function verifySignedValue(token: string | null | undefined): string | null {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const payload = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(computeSignature(payload));
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+  return payload;
+}
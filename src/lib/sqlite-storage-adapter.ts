@@ -0,0 +1,52 @@
+// SQLite Storage Adapter - single key/value table backed by better-sqlite3
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+import { StorageAdapter, StorageCollection, serializeValue, deserializeValue } from './storage-adapter';
+
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly kind = 'sqlite' as const;
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    // better-sqlite3 is an optional native dependency, only load it when this backend is selected
+    const Database = createRequire(import.meta.url)('better-sqlite3') as typeof BetterSqlite3;
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS game_storage (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (collection, key)
+      )
+    `);
+  }
+
+  get<T>(collection: StorageCollection, key: string): T | null {
+    const row = this.db
+      .prepare('SELECT value FROM game_storage WHERE collection = ? AND key = ?')
+      .get(collection, key) as { value: string } | undefined;
+    return row ? deserializeValue<T>(row.value) : null;
+  }
+
+  set<T>(collection: StorageCollection, key: string, value: T): void {
+    this.db
+      .prepare(`
+        INSERT INTO game_storage (collection, key, value, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `)
+      .run(collection, key, serializeValue(value), Date.now());
+  }
+
+  delete(collection: StorageCollection, key: string): void {
+    this.db.prepare('DELETE FROM game_storage WHERE collection = ? AND key = ?').run(collection, key);
+  }
+
+  list<T>(collection: StorageCollection): Array<{ key: string; value: T }> {
+    const rows = this.db
+      .prepare('SELECT key, value FROM game_storage WHERE collection = ? ORDER BY key')
+      .all(collection) as Array<{ key: string; value: string }>;
+    return rows.map(row => ({ key: row.key, value: deserializeValue<T>(row.value) }));
+  }
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { StorageAdapter, deserializeValue, serializeValue } from './storage-adapter';
+import { FileStorageAdapter } from './file-storage-adapter';
+import { SqliteStorageAdapter } from './sqlite-storage-adapter';
+
+describe('serializeValue / deserializeValue', () => {
+  it('keeps Dates and nested Maps intact', () => {
+    const value = {
+      joinedAt: new Date('2025-01-02T03:04:05.000Z'),
+      sessions: new Map([['p1', { lastSeen: new Date('2025-01-02T03:05:00.000Z'), rounds: new Map([[1, 'a']]) }]]),
+    };
+
+    const restored = deserializeValue<typeof value>(serializeValue(value));
+
+    expect(restored.joinedAt).toBeInstanceOf(Date);
+    expect(restored.joinedAt.toISOString()).toBe('2025-01-02T03:04:05.000Z');
+    expect(restored.sessions).toBeInstanceOf(Map);
+    expect(restored.sessions.get('p1')!.lastSeen).toBeInstanceOf(Date);
+    expect(restored.sessions.get('p1')!.rounds.get(1)).toBe('a');
+  });
+});
+
+// Both persistent backends have to behave the same, the rest of the app only sees StorageAdapter
+const backends: Array<[string, (dir: string) => StorageAdapter]> = [
+  ['file', dir => new FileStorageAdapter(path.join(dir, 'data'))],
+  ['sqlite', dir => new SqliteStorageAdapter(path.join(dir, 'data.sqlite'))],
+];
+
+describe.each(backends)('%s storage adapter', (_kind, createAdapter) => {
+  let dir: string;
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-adapter-'));
+    storage = createAdapter(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips a record with Maps and Dates', () => {
+    const submittedAt = new Date('2025-03-04T05:06:07.000Z');
+    storage.set('game_data', 'KQX4', { submissions: new Map([[1, [{ id: 's1', submittedAt }]]]), votes: [] });
+
+    const restored = storage.get<{ submissions: Map<number, Array<{ id: string; submittedAt: Date }>>; votes: unknown[] }>('game_data', 'KQX4');
+
+    expect(restored!.submissions).toBeInstanceOf(Map);
+    expect(restored!.submissions.get(1)![0].submittedAt).toEqual(submittedAt);
+    expect(restored!.votes).toEqual([]);
+  });
+
+  it('returns null for a missing key', () => {
+    expect(storage.get('rooms', 'NOPE')).toBeNull();
+  });
+
+  it('overwrites an existing record', () => {
+    storage.set('rooms', 'KQX4', { version: 1 });
+    storage.set('rooms', 'KQX4', { version: 2 });
+
+    expect(storage.get('rooms', 'KQX4')).toEqual({ version: 2 });
+    expect(storage.list('rooms')).toHaveLength(1);
+  });
+
+  it('lists only the records of one collection', () => {
+    storage.set('rooms', 'AAAA', { id: 'AAAA' });
+    storage.set('rooms', 'a/b c', { id: 'a/b c' }); // keys are not always path or SQL safe
+    storage.set('game_data', 'AAAA', { votes: [] });
+
+    const rooms = storage.list<{ id: string }>('rooms');
+
+    expect(rooms).toHaveLength(2);
+    expect(rooms).toEqual(expect.arrayContaining([
+      { key: 'AAAA', value: { id: 'AAAA' } },
+      { key: 'a/b c', value: { id: 'a/b c' } },
+    ]));
+  });
+
+  it('deletes a record without touching the others', () => {
+    storage.set('rooms', 'AAAA', { id: 'AAAA' });
+    storage.set('rooms', 'BBBB', { id: 'BBBB' });
+
+    storage.delete('rooms', 'AAAA');
+    storage.delete('rooms', 'ZZZZ'); // deleting a missing key is a no-op
+
+    expect(storage.get('rooms', 'AAAA')).toBeNull();
+    expect(storage.list('rooms').map(record => record.key)).toEqual(['BBBB']);
+  });
+
+  it('reads back what another instance wrote to the same location', () => {
+    storage.set('rooms', 'KQX4', { createdAt: new Date('2025-01-01T00:00:00.000Z') });
+
+    const reopened = createAdapter(dir);
+
+    expect(reopened.get<{ createdAt: Date }>('rooms', 'KQX4')!.createdAt).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+  });
+});
@@ -0,0 +1,107 @@
+// Storage Adapter - Pluggable persistence for rooms, sessions and game data
+import path from 'path';
+import { FileStorageAdapter } from './file-storage-adapter';
+import { SqliteStorageAdapter } from './sqlite-storage-adapter';
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  get<T>(collection: StorageCollection, key: string): T | null;
+  set<T>(collection: StorageCollection, key: string, value: T): void;
+  delete(collection: StorageCollection, key: string): void;
+  list<T>(collection: StorageCollection): Array<{ key: string; value: T }>;
+}
+
+export type StorageKind = 'memory' | 'file' | 'sqlite';
+
+// rooms: SessionManager room + session data, game_data: GameManager submissions and votes
+export type StorageCollection = 'rooms' | 'game_data';
+
+// JSON encoding that keeps Dates and Maps intact across a save/load cycle
+export function serializeValue(value: unknown): string {
+  return JSON.stringify(value, function (key, val) {
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { __type: 'Date', value: raw.toISOString() };
+    }
+    if (raw instanceof Map) {
+      return { __type: 'Map', entries: Array.from(raw.entries()) };
+    }
+    return val;
+  });
+}
+
+export function deserializeValue<T>(text: string): T {
+  return JSON.parse(text, (key, val) => {
+    if (val && typeof val === 'object' && val.__type === 'Date') {
+      return new Date(val.value);
+    }
+    if (val && typeof val === 'object' && val.__type === 'Map') {
+      return new Map(val.entries);
+    }
+    return val;
+  });
+}
+
+// Default adapter - keeps everything in process memory (lost on restart)
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly kind = 'memory' as const;
+  private collections: Map<StorageCollection, Map<string, string>> = new Map();
+
+  private getCollection(collection: StorageCollection): Map<string, string> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    return this.collections.get(collection)!;
+  }
+
+  get<T>(collection: StorageCollection, key: string): T | null {
+    const text = this.getCollection(collection).get(key);
+    return text ? deserializeValue<T>(text) : null;
+  }
+
+  set<T>(collection: StorageCollection, key: string, value: T): void {
+    this.getCollection(collection).set(key, serializeValue(value));
+  }
+
+  delete(collection: StorageCollection, key: string): void {
+    this.getCollection(collection).delete(key);
+  }
+
+  list<T>(collection: StorageCollection): Array<{ key: string; value: T }> {
+    return Array.from(this.getCollection(collection).entries()).map(([key, text]) => ({
+      key,
+      value: deserializeValue<T>(text),
+    }));
+  }
+}
+
+// Pick the adapter from GAME_STORAGE (memory | file | sqlite) and GAME_STORAGE_PATH
+export function createStorageAdapter(): StorageAdapter {
+  const kind = (process.env.GAME_STORAGE || 'memory').toLowerCase();
+
+  switch (kind) {
+    case 'file':
+      return new FileStorageAdapter(process.env.GAME_STORAGE_PATH || path.join(process.cwd(), '.game-data'));
+
+    case 'sqlite':
+      return new SqliteStorageAdapter(process.env.GAME_STORAGE_PATH || path.join(process.cwd(), '.game-data.sqlite'));
+
+    case 'memory':
+      return new MemoryStorageAdapter();
+
+    default:
+      throw new Error(`Unknown GAME_STORAGE backend: ${kind}. Use memory, file or sqlite.`);
+  }
+}
+
+declare global {
+  var __gameStorageAdapter__: StorageAdapter | undefined;
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  if (!global.__gameStorageAdapter__) {
+    global.__gameStorageAdapter__ = createStorageAdapter();
+    console.log(`Using ${global.__gameStorageAdapter__.kind} storage backend`);
+  }
+  return global.__gameStorageAdapter__;
+}
@@ -0,0 +1,120 @@
+// Stylometry - an offline "machine judge" that rates how AI-like each player's writing looks
+import { MachineVerdict, Player, PlayerRole, StyleSignal, Submission } from '@/types/game';
+
+// Latin letters with the Turkish and accented ones, plus digits and apostrophes inside words
+const WORD_PATTERN = /[a-zA-Z0-9À-ɏ']+/g;
+const SENTENCE_PATTERN = /[^.!?…]+[.!?…]*/g;
+const EMOJI_PATTERN = /[☀-➿]|[\uD83C-\uDBFF][\uDC00-\uDFFF]/g;
+const EM_DASH_PATTERN = /[—–]/g;
+
+// Phrases chat assistants lean on, in both languages the prompts are written in
+const AI_PHRASES = [
+  'as an ai', 'delve', 'it is important to note', "it's important to note", 'in conclusion', 'overall,',
+  'furthermore', 'moreover', 'additionally', 'tapestry', 'in summary', 'it is worth noting', 'navigate',
+  'plays a crucial role', 'a testament to', 'ultimately,', 'great question', 'i hope this helps',
+  'sonuç olarak', 'genel olarak', 'öncelikle', 'ayrıca', 'bununla birlikte', 'önemle belirtmek',
+  'özetle', 'kritik bir rol', 'unutulmamalıdır', 'şunu belirtmek', 'bir yapay zeka olarak',
+];
+
+// Things people type in a hurry that assistants almost never produce
+const TYPO_PATTERNS = [
+  /([a-zçğıöşü])\1{2,}/g, // stretched letters, "çoook"
+  /[.,!?][a-zA-Zçğıöşü]/g, // no space after punctuation
+  /\s{2,}/g, // double spaces
+  /\b(i|im|dont|cant|wont|thx|pls|slm|mrb|tmm|bi|bişey|yok ya)\b/g, // lowercase "i" and chat spellings
+  /[!?]{2,}/g, // "!!!" and "?!?"
+];
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Each signal is a 0..1 strength, the weight says how far and in which direction it moves the verdict
+function extractSignals(text: string): { signals: StyleSignal[]; weights: Record<string, number>; wordCount: number } {
+  const lower = text.toLowerCase();
+  const words = lower.match(WORD_PATTERN) || [];
+  const sentences = (text.match(SENTENCE_PATTERN) || []).map(s => s.trim()).filter(Boolean);
+  const wordCount = words.length;
+  const per100Words = (count: number) => (wordCount > 0 ? (count / wordCount) * 100 : 0);
+
+  // Type-token ratio, assistants repeat themselves less than people writing quickly
+  const lexicalDiversity = wordCount > 0 ? new Set(words).size / wordCount : 0;
+
+  // Uniform sentence lengths read as generated, people mix short and long ones
+  const sentenceLengths = sentences.map(s => (s.match(WORD_PATTERN) || []).length).filter(n => n > 0);
+  const averageLength = mean(sentenceLengths);
+  const spread = Math.sqrt(mean(sentenceLengths.map(n => (n - averageLength) ** 2)));
+  const variation = averageLength > 0 ? spread / averageLength : 0;
+
+  // Capitalised sentences with closing punctuation are the tidy assistant default
+  const tidySentences = sentences.filter(s => /^[A-ZÇĞİÖŞÜ"'(]/.test(s) && /[.!?…"')]$/.test(s)).length;
+
+  const aiPhraseHits = AI_PHRASES.reduce((count, phrase) => count + lower.split(phrase).length - 1, 0);
+  const typoHits = TYPO_PATTERNS.reduce((count, pattern) => count + (text.match(pattern) || []).length, 0);
+  const emojiCount = (text.match(EMOJI_PATTERN) || []).length;
+  const emDashCount = (text.match(EM_DASH_PATTERN) || []).length;
+
+  const signals: StyleSignal[] = [
+    { id: 'ai_phrases', label: 'Assistant phrases', value: clamp(per100Words(aiPhraseHits) / 3), leansAi: true },
+    { id: 'em_dashes', label: 'Em dashes', value: clamp(emDashCount / Math.max(1, sentences.length)), leansAi: true },
+    { id: 'uniform_sentences', label: 'Uniform sentence length', value: sentenceLengths.length > 1 ? clamp(1 - variation / 0.6) : 0, leansAi: true },
+    { id: 'lexical_diversity', label: 'Lexical diversity', value: clamp((lexicalDiversity - 0.5) / 0.4), leansAi: true },
+    { id: 'tidy_punctuation', label: 'Tidy punctuation', value: sentences.length > 0 ? tidySentences / sentences.length : 0, leansAi: true },
+    { id: 'typos', label: 'Typos and chat spelling', value: clamp(per100Words(typoHits) / 5), leansAi: false },
+    { id: 'emoji', label: 'Emoji', value: clamp(per100Words(emojiCount) / 3), leansAi: false },
+  ];
+
+  const weights: Record<string, number> = {
+    ai_phrases: 2.5,
+    em_dashes: 1.5,
+    uniform_sentences: 0.8,
+    lexical_diversity: 0.8,
+    tidy_punctuation: 1.0,
+    typos: -2.5,
+    emoji: -1.5,
+  };
+
+  return { signals, weights, wordCount };
+}
+
+// 0..100, a logistic over the weighted signals, centred so plain neutral text lands near 50
+export function scoreAiLikelihood(text: string): { aiLikelihood: number; signals: StyleSignal[]; wordCount: number } {
+  const { signals, weights, wordCount } = extractSignals(text);
+  if (wordCount === 0) {
+    return { aiLikelihood: 50, signals, wordCount };
+  }
+
+  const logit = signals.reduce((sum, signal) => sum + weights[signal.id] * signal.value, -1.6);
+  const aiLikelihood = Math.round(100 / (1 + Math.exp(-logit)));
+  return { aiLikelihood, signals, wordCount };
+}
+
+// Everything a player wrote is judged together, the machine can only tell AI text from human text
+export function judgePlayers(submissions: Record<number, Submission[]>, players: Player[]): MachineVerdict[] {
+  const allSubmissions = Object.values(submissions).flat();
+
+  return players.map(player => {
+    const text = allSubmissions
+      .filter(submission => submission.playerId === player.id)
+      .map(submission => submission.content)
+      .join('\n');
+    const { aiLikelihood, signals, wordCount } = scoreAiLikelihood(text);
+
+    return {
+      playerId: player.id,
+      playerName: player.name,
+      aiLikelihood,
+      guess: aiLikelihood >= 50 ? 'ai_user' : 'human',
+      wordCount,
+      signals,
+    };
+  });
+}
+
+// Trolls write their own answers, so for the machine they count as human
+export function isMachineRight(verdict: MachineVerdict | undefined, actualRole: PlayerRole): boolean {
+  if (!verdict || verdict.wordCount === 0) return false;
+  return (verdict.guess === 'ai_user') === (actualRole === 'ai_user');
+}
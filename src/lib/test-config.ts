@@ -8,6 +8,7 @@ export const TEST_CONFIG = {
   MAX_PLAYERS: 4,
   ROUND_DURATION: 0.5, // 30 seconds for testing
   VOTING_DURATION: 0.5, // 30 seconds for testing
+  ELIMINATION_VOTING_DURATION: 0.25, // 15 seconds for testing
   ROLE_REVEAL_DURATION: 0.1, // 6 seconds for testing
   LOBBY_AUTO_START_THRESHOLD: 12,
 } as const;
@@ -21,6 +22,7 @@ export function getGameConfig() {
       MAX_PLAYERS: TEST_CONFIG.MAX_PLAYERS,
       ROUND_DURATION: TEST_CONFIG.ROUND_DURATION,
       VOTING_DURATION: TEST_CONFIG.VOTING_DURATION,
+      ELIMINATION_VOTING_DURATION: TEST_CONFIG.ELIMINATION_VOTING_DURATION,
       ROLE_REVEAL_DURATION: TEST_CONFIG.ROLE_REVEAL_DURATION,
       LOBBY_AUTO_START_THRESHOLD: TEST_CONFIG.LOBBY_AUTO_START_THRESHOLD,
     };
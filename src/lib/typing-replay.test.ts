@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayEdit } from '@/types/game';
+import { CompressionUtils } from './compression-utils';
+import { MAX_REPLAY_EDITS, diffText, fitsReplayBudget, getRecordingBudget, packedEditSize, sanitizeReplay } from './typing-replay';
+
+// Records each version of the answer box the way useTypingReplay does, until the budget runs out
+function recordTyping(versions: string[], maxLength: number): ReplayEdit[] {
+  const edits: ReplayEdit[] = [];
+  let recorded = '';
+  let size = 0;
+  for (const [index, version] of versions.entries()) {
+    const edit: ReplayEdit = { t: (index + 1) * 1180, ...diffText(recorded, version)! };
+    const editSize = packedEditSize(edit, edits.length > 0 ? edits[edits.length - 1].t : 0);
+    if (edits.length >= MAX_REPLAY_EDITS - 1 || size + editSize > getRecordingBudget(maxLength)) break;
+    edits.push(edit);
+    size += editSize;
+    recorded = version;
+  }
+
+  const answer = versions[versions.length - 1];
+  const closing = diffText(recorded, answer);
+  return closing ? [...edits, { t: (versions.length + 1) * 1180, ...closing }] : edits;
+}
+
+describe('typing replay budget', () => {
+  it('keeps a heavily rewritten answer within the server budget', () => {
+    // Typed out five times and deleted in between, about 1350 keystrokes for a 150 character answer
+    const answer = 'Socks "vanish" because the dryer is a portal, and the portal only opens for the left one. '.repeat(2).slice(0, 150);
+    const typeOut = Array.from({ length: answer.length }, (_, i) => answer.slice(0, i + 1));
+    const deleteAll = [...typeOut].reverse().slice(1).concat('');
+    const versions = [...typeOut, ...deleteAll, ...typeOut, ...deleteAll, ...typeOut, ...deleteAll, ...typeOut, ...deleteAll, ...typeOut];
+
+    const edits = recordTyping(versions, 150);
+
+    expect(edits.length).toBeLessThan(versions.length); // the budget cut the recording short
+    expect(sanitizeReplay(edits, versions[versions.length - 1], 150)).toEqual(edits);
+    expect(fitsReplayBudget(CompressionUtils.compressReplay(edits))).toBe(true);
+  });
+
+  it('never undercounts the packed size of an edit', () => {
+    const edits: ReplayEdit[] = [
+      { t: 120, at: 0, del: 0, ins: 'a' },
+      { t: 900, at: 1, del: 0, ins: '"quoted"\n', paste: true },
+      { t: 1400, at: 0, del: 3, ins: '' },
+    ];
+
+    const counted = edits.reduce((sum, edit, index) => sum + packedEditSize(edit, index > 0 ? edits[index - 1].t : 0), 0);
+
+    expect(counted).toBeGreaterThanOrEqual(JSON.stringify(CompressionUtils.compressReplay(edits)).length - JSON.stringify({ edits: [] }).length);
+  });
+});
+
+describe('sanitizeReplay', () => {
+  it('keeps a replay that ends on the answer', () => {
+    const edits: ReplayEdit[] = [{ t: 100, at: 0, del: 0, ins: 'Socks' }, { t: 300, at: 5, del: 0, ins: ' vanish' }];
+
+    expect(sanitizeReplay(edits, 'Socks vanish', 120)).toEqual(edits);
+    expect(sanitizeReplay(edits, 'Socks vanished', 120)).toBeNull();
+  });
+
+  it('rejects edits that overlap the text or go back in time', () => {
+    expect(sanitizeReplay([{ t: 100, at: 1, del: 0, ins: 'a' }], 'a', 120)).toBeNull();
+    expect(sanitizeReplay([{ t: 100, at: 0, del: 0, ins: 'a' }, { t: 50, at: 1, del: 0, ins: 'b' }], 'ab', 120)).toBeNull();
+  });
+
+  it('rejects text longer than the answer box could ever hold', () => {
+    const huge = 'x'.repeat(221);
+    expect(sanitizeReplay([{ t: 100, at: 0, del: 0, ins: huge }, { t: 200, at: 0, del: 221, ins: 'ok' }], 'ok', 120)).toBeNull();
+
+    // Growing the text a piece at a time is caught as well
+    const pieces: ReplayEdit[] = Array.from({ length: 30 }, (_, i) => ({ t: i, at: i * 10, del: 0, ins: 'x'.repeat(10) }));
+    expect(sanitizeReplay([...pieces, { t: 30, at: 0, del: 300, ins: 'ok' }], 'ok', 120)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+// Typing Replay - the edit history of an answer, recorded while typing and played back with the results
+import { CompressedReplay, ReplayEdit } from '@/types/game';
+
+export const MAX_REPLAY_EDITS = 1500;
+export const REPLAY_BUDGET_BYTES = 24 * 1024; // JSON length of the packed tuples (not gzipped), per submission
+const EMPTY_REPLAY_SIZE = JSON.stringify({ edits: [] }).length;
+
+// The single edit that turns one version of the answer into the next, null when nothing changed
+export function diffText(previous: string, next: string): Omit<ReplayEdit, 't' | 'paste'> | null {
+  if (previous === next) return null;
+
+  let start = 0;
+  while (start < previous.length && start < next.length && previous[start] === next[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    at: start,
+    del: previous.length - start - end,
+    ins: next.slice(start, next.length - end),
+  };
+}
+
+export function applyEdit(text: string, edit: Pick<ReplayEdit, 'at' | 'del' | 'ins'>): string {
+  return text.slice(0, edit.at) + edit.ins + text.slice(edit.at + edit.del);
+}
+
+// Replays come from the browser, keep one only if it is well-formed and ends on the submitted answer.
+// The answer box never holds more than maxLength + 100 characters, so no edit may build a longer text along the way
+export function sanitizeReplay(input: unknown, content: string, maxLength: number): ReplayEdit[] | null {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_REPLAY_EDITS) return null;
+
+  const maxTextLength = maxLength + 100;
+  const edits: ReplayEdit[] = [];
+  let text = '';
+  let lastT = 0;
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') return null;
+    const { t, at, del, ins, paste } = raw as Record<string, unknown>;
+    if (typeof t !== 'number' || !Number.isFinite(t) || t < lastT) return null;
+    if (!Number.isInteger(at) || !Number.isInteger(del) || typeof ins !== 'string' || ins.length > maxTextLength) return null;
+    const edit: ReplayEdit = { t: Math.round(t), at: at as number, del: del as number, ins, ...(paste === true && { paste: true }) };
+    if (edit.at < 0 || edit.del < 0 || edit.at + edit.del > text.length) return null;
+
+    if (text.length - edit.del + edit.ins.length > maxTextLength) return null;
+
+    text = applyEdit(text, edit);
+    lastT = edit.t;
+    edits.push(edit);
+  }
+
+  return text === content ? edits : null;
+}
+
+export function fitsReplayBudget(replay: CompressedReplay): boolean {
+  return JSON.stringify(replay).length <= REPLAY_BUDGET_BYTES;
+}
+
+// What one edit adds to the packed replay, counting the paste flag and the comma so the browser never undercounts
+export function packedEditSize(edit: ReplayEdit, previousT: number): number {
+  return JSON.stringify([edit.t - previousT, edit.at, edit.del, edit.ins, 1]).length + 1;
+}
+
+// Budget the browser may record into, leaving room for the closing edit to the answer (every character escaped at worst)
+export function getRecordingBudget(maxLength: number): number {
+  return REPLAY_BUDGET_BYTES - EMPTY_REPLAY_SIZE - 2 * (maxLength + 100) - 40;
+}
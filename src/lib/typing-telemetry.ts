@@ -0,0 +1,55 @@
+// Typing Telemetry - how each answer was written, checked on the server and summarised for the host and results
+import { Submission, TypingTelemetry } from '@/types/game';
+
+export const PAUSE_THRESHOLD_MS = 3000; // longer gaps between keys are thinking, not typing
+const MAX_COUNT = 100000;
+const MAX_DURATION_MS = 60 * 60 * 1000;
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(MAX_COUNT, Math.max(0, Math.round(value))) : 0;
+}
+
+function toDuration(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.min(MAX_DURATION_MS, Math.round(value)) : null;
+}
+
+// Telemetry comes from the browser, keep only well-formed numbers and drop anything else
+export function sanitizeTelemetry(input: unknown): TypingTelemetry | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const raw = input as Record<string, unknown>;
+
+  return {
+    timeToFirstKeystrokeMs: toDuration(raw.timeToFirstKeystrokeMs),
+    keystrokes: toCount(raw.keystrokes),
+    averageKeyIntervalMs: toDuration(raw.averageKeyIntervalMs),
+    pasteCount: toCount(raw.pasteCount),
+    pastedChars: toCount(raw.pastedChars),
+    edits: toCount(raw.edits),
+  };
+}
+
+// Players see each other's answers while voting, but not how they were written or typed out until the author is revealed
+export function stripTypingData(submissions: Record<number, Submission[]>, revealedPlayerIds: string[] = []): Record<number, Submission[]> {
+  const revealed = new Set(revealedPlayerIds);
+  const stripped: Record<number, Submission[]> = {};
+  Object.entries(submissions).forEach(([roundNumber, roundSubmissions]) => {
+    stripped[parseInt(roundNumber)] = roundSubmissions.map(submission => {
+      if (revealed.has(submission.playerId)) return submission;
+      const { telemetry, replay, ...rest } = submission;
+      return rest;
+    });
+  });
+  return stripped;
+}
+
+// Share of the final answer that arrived by pasting, 0..1
+export function getPasteShare(telemetry: TypingTelemetry, contentLength: number): number {
+  if (contentLength === 0) return 0;
+  return Math.min(1, telemetry.pastedChars / contentLength);
+}
+
+// Words per minute from the average gap between keys, assuming five characters a word
+export function getWordsPerMinute(telemetry: TypingTelemetry): number | null {
+  if (!telemetry.averageKeyIntervalMs) return null;
+  return Math.round(60000 / telemetry.averageKeyIntervalMs / 5);
+}
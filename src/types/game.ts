@@ -1,6 +1,15 @@
 export type PlayerRole = 'human' | 'ai_user' | 'troll';
 
-export type GamePhase = 'lobby' | 'role_reveal' | 'round1' | 'round2' | 'round3' | 'round4' | 'round5' | 'round6' | 'round7' | 'round8' | 'voting' | 'results' | 'finished';
+// Round phases are round1..roundN, N is the round count of the selected prompt pack
+export type RoundPhase = `round${number}`;
+
+// Elimination mode follows each round with a short vote, elimination1..eliminationN
+export type EliminationPhase = `elimination${number}`;
+
+export type GamePhase = 'lobby' | 'role_reveal' | RoundPhase | EliminationPhase | 'voting' | 'results' | 'finished';
+
+// 'classic' votes once after all rounds, 'elimination' votes someone out after every round
+export type GameMode = 'classic' | 'elimination';
 
 export interface Player {
   id: string;
@@ -10,9 +19,15 @@ export interface Player {
   isConnected: boolean;
   lastSeen: Date;
   isAdmin?: boolean;
+  eliminatedInRound?: number; // elimination mode, eliminated players watch as spectators
+  isBot?: boolean; // seat filler added by the host, only the host is told
 }
 
+// Player as other clients see them - roles and bot flags stay on the server
+export type PublicPlayer = Omit<Player, 'role' | 'isBot'>;
+
 export interface GameState {
+  roomId: string;
   currentPhase: GamePhase;
   phaseEndTime: Date | null;
   startedAt: Date | null;
@@ -22,6 +37,53 @@ export interface GameState {
   maxPlayers: number;
   roundDuration: number; // minutes
   votingDuration: number; // minutes
+  promptPackId: string;
+  roundConfigs: RoundConfig[]; // Rounds of the selected prompt pack, in play order
+  roleSettings: RoleSettings;
+  scoringPreset: ScoringPresetId;
+  roundStartedAt: Record<number, Date>; // when each round phase began, for the early submission bonus
+  gameMode: GameMode;
+  eliminations: Elimination[]; // in elimination order, roles are public once a player is out
+  anonymousVoting: boolean; // the voting board hides authors behind pseudonyms until results
+  assistantEnabled: boolean; // an assistant endpoint is configured, ai_user players get a draft panel
+  spectators: Spectator[]; // joined after the game started, never dealt a role
+  resultsReveal: ResultsReveal; // how far the host has walked everyone through the results
+  pause: GamePause | null; // set while the host has the game paused
+  autoAdvance: boolean; // end a phase early once every connected player has answered or voted
+}
+
+// A paused game keeps what was left on the phase timer so it can pick up exactly there
+export interface GamePause {
+  pausedAt: Date;
+  remainingMs: number | null; // null when no phase timer was running
+}
+
+// Host-driven results reveal, every client renders the same step
+export type ResultsRevealStage = 'players' | 'votes' | 'leaderboard';
+
+export interface ResultsReveal {
+  stage: ResultsRevealStage;
+  revealedPlayerIds: string[]; // in reveal order, last place first
+}
+
+// A late arrival who watches the game without a role, submissions or votes
+export interface Spectator {
+  id: string;
+  name: string;
+  joinedAt: Date;
+}
+
+// Game state as sent to clients
+export type PublicGameState = Omit<GameState, 'players' | 'adminPlayer'> & {
+  players: PublicPlayer[];
+  adminPlayer: PublicPlayer | null;
+  currentRound?: RoundConfig;
+};
+
+// How roles are dealt: 'ratio' scales the values to the player count, 'exact' uses them as head counts
+export interface RoleSettings {
+  mode: 'ratio' | 'exact';
+  values: Record<PlayerRole, number>;
 }
 
 export interface Submission {
@@ -31,6 +93,34 @@ export interface Submission {
   roundNumber: number;
   content: string;
   submittedAt: Date;
+  telemetry?: TypingTelemetry; // host and results only, stripped while players vote
+  replay?: CompressedReplay; // results only, stripped while players vote
+}
+
+// One change to the answer box: `del` characters removed at `at`, then `ins` put in their place
+export interface ReplayEdit {
+  t: number; // ms since the round screen opened
+  at: number;
+  del: number;
+  ins: string;
+  paste?: boolean;
+}
+
+// Replay as stored and sent: [ms since the previous edit, at, del, ins] with a trailing 1 for pastes
+export type CompressedReplayEdit = [number, number, number, string] | [number, number, number, string, 1];
+
+export interface CompressedReplay {
+  edits: CompressedReplayEdit[];
+}
+
+// How an answer was written, recorded in the browser while the player typed
+export interface TypingTelemetry {
+  timeToFirstKeystrokeMs: number | null; // from the round screen opening, null when nothing was typed
+  keystrokes: number;
+  averageKeyIntervalMs: number | null; // typing cadence, pauses longer than a few seconds are left out
+  pasteCount: number;
+  pastedChars: number;
+  edits: number; // deletions and overwritten selections
 }
 
 export interface Vote {
@@ -40,7 +130,55 @@ export interface Vote {
   targetPlayerId: string;
   targetPlayerName: string;
   predictedRole: PlayerRole;
+  confidence: number; // 50..100 percent, how sure the voter was
   submittedAt: Date;
+  roundNumber?: number; // set for elimination votes, one per voter per round
+}
+
+// Voting board entry with the author hidden behind a pseudonym
+export interface AnonymousSubmission {
+  id: string;
+  pseudonym: string;
+  roundNumber: number;
+  content: string;
+}
+
+export interface AnonymousVotingBoard {
+  pseudonyms: string[];
+  submissions: Record<number, AnonymousSubmission[]>; // shuffled within each round
+}
+
+// AI assistant - an OpenAI-compatible chat endpoint the host points the room at, kept on the server
+export interface AssistantConfig {
+  baseUrl: string; // e.g. http://localhost:8080/v1
+  model: string;
+  apiKey?: string;
+}
+
+export interface AssistantDraft {
+  playerId: string;
+  roundNumber: number;
+  content: string;
+  generatedAt: Date;
+}
+
+export type AssistantUsage = 'verbatim' | 'edited';
+
+export interface Elimination {
+  playerId: string;
+  playerName: string;
+  role: PlayerRole;
+  roundNumber: number;
+  voteCount: number;
+}
+
+// Trolls play for chaos and sit outside both sides
+export type EliminationWinner = 'humans' | 'ai_users';
+
+export interface EliminationOutcome {
+  winner: EliminationWinner;
+  reason: 'ai_users_eliminated' | 'humans_outnumbered' | 'rounds_exhausted';
+  eliminations: Elimination[];
 }
 
 export interface RoundConfig {
@@ -52,6 +190,32 @@ export interface RoundConfig {
   maxLength: number; // characters
 }
 
+// Prompt packs - JSON files describing a full set of rounds
+export interface PromptPackRound {
+  title: string;
+  description: string;
+  prompt: {
+    tr: string;
+    en: string;
+  };
+  duration: number; // minutes
+  maxLength: number; // characters
+}
+
+export interface PromptPack {
+  id: string;
+  name: string;
+  description: string;
+  rounds: PromptPackRound[];
+}
+
+export interface PromptPackSummary {
+  id: string;
+  name: string;
+  description: string;
+  roundCount: number;
+}
+
 export interface VotingResults {
   playerId: string;
   playerName: string;
@@ -61,7 +225,8 @@ export interface VotingResults {
     count: number;
     percentage: number;
   }[];
-  mostVotedRole: PlayerRole;
+  mostVotedRole: PlayerRole | null; // null when there is no consensus
+  noConsensusReason?: 'no_votes' | 'tie';
   correctGuesses: number;
 }
 
@@ -73,10 +238,38 @@ export interface PlayerScore {
   totalVotes: number;
   accuracy: number;
   points: number;
+  rank: number; // 1-based, tied scores share a rank
+  breakdown: ScoreBreakdownEntry[];
+  brierScore: number | null; // mean squared confidence error over this player's votes, lower is better
+  calibration: CalibrationBucket[];
   wasGuessedCorrectly: boolean;
   timesGuessedAs: Record<PlayerRole, number>;
 }
 
+// Votes grouped by stated confidence, a well calibrated player is right about as often as they claim
+export interface CalibrationBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  votes: number;
+  correct: number;
+}
+
+// Scoring - a preset is an ordered list of weighted rules
+export type ScoringRuleId = 'correct_guesses' | 'hidden_role' | 'early_submission' | 'participation' | 'accuracy' | 'calibration' | 'beat_the_machine';
+export type ScoringPresetId = 'classic' | 'detective' | 'deceiver' | 'speed';
+
+export interface ScoreBreakdownEntry {
+  rule: ScoringRuleId;
+  label: string;
+  points: number;
+}
+
+export interface ScoringPresetSummary {
+  id: ScoringPresetId;
+  name: string;
+  description: string;
+}
+
 export interface GameResults {
   finalScores: PlayerScore[];
   votingResults: VotingResults[];
@@ -87,15 +280,44 @@ export interface GameResults {
     averageAccuracy: number;
     mostAccuratePlayer: string;
     bestHiddenRole: string;
+    machineAccuracy: number; // percent of players the machine judge classified right
   };
+  machineVerdicts: MachineVerdict[];
+  elimination?: EliminationOutcome; // elimination mode only
+  pseudonyms?: Record<string, string>; // playerId -> pseudonym, anonymous voting only
+  assistantUsage?: Record<string, AssistantUsage>; // submissionId -> how much of it came from an assistant draft
+}
+
+// Machine judge - offline stylometry over each player's answers
+export interface StyleSignal {
+  id: string;
+  label: string;
+  value: number; // 0..1 strength
+  leansAi: boolean; // whether a strong signal pushes the verdict towards AI
+}
+
+export interface MachineVerdict {
+  playerId: string;
+  playerName: string;
+  aiLikelihood: number; // 0..100
+  guess: 'ai_user' | 'human';
+  wordCount: number;
+  signals: StyleSignal[];
 }
 
 // Client-side events
 export interface GameEvent {
   type: 'player_joined' | 'player_left' | 'phase_changed' | 'submission_received'
-      | 'vote_received' | 'game_started' | 'game_ended' | 'timer_update' | 'admin_left' | 'admin_joined' | 'timer_set' | 'game_destroyed' | 'role_assigned' | 'cheater_alert';
+      | 'vote_received' | 'game_started' | 'game_ended' | 'timer_update' | 'admin_left' | 'admin_joined' | 'timer_set' | 'game_destroyed' | 'role_assigned' | 'cheater_alert' | 'host_transferred' | 'prompt_pack_selected' | 'role_settings_updated' | 'scoring_preset_updated' | 'game_mode_updated' | 'player_eliminated' | 'anonymous_voting_updated' | 'pseudonym_assigned' | 'bots_updated' | 'assistant_updated' | 'spectator_joined' | 'results_reveal_updated' | 'game_paused' | 'game_resumed' | 'auto_advance_updated' | 'everyone_in';
   data: any;
   timestamp: Date;
+  audience?: EventAudience; // defaults to a broadcast
+}
+
+// Who may receive a game event on the SSE stream
+export interface EventAudience {
+  type: 'broadcast' | 'player' | 'host';
+  playerId?: string; // required for 'player'
 }
 
 // Server-Sent Events data structure
@@ -114,22 +336,41 @@ export interface ApiResponse<T = any> {
 
 export interface JoinGameRequest {
   name: string;
+  roomId?: string;
 }
 
 export interface SubmissionRequest {
   roundNumber: number;
   content: string;
+  telemetry?: TypingTelemetry;
+  replay?: ReplayEdit[];
+}
+
+export interface AssistantRequest {
+  roundNumber: number;
+  hint?: string; // extra direction for the draft, e.g. "make it sound casual"
 }
 
 export interface VoteRequest {
   targetPlayerId: string;
   predictedRole: PlayerRole;
+  confidence?: number; // 50..100 percent
+  targetPseudonym?: string; // anonymous voting, in place of targetPlayerId
 }
 
 // Admin actions
 export interface AdminAction {
-  action: 'start_game' | 'advance_phase' | 'skip_phase' | 'assign_role' | 'kick_player' | 'reset_game' | 'set_timer' | 'destroy_game' | 'reset_network' | 'clear_compression' | 'cleanup_sessions' | 'simulate_error' | 'export_system_data';
+  action: 'start_game' | 'advance_phase' | 'skip_phase' | 'assign_role' | 'kick_player' | 'reset_game' | 'set_timer' | 'destroy_game' | 'transfer_host' | 'set_prompt_pack' | 'set_custom_rounds' | 'set_role_settings' | 'set_scoring_preset' | 'set_game_mode' | 'set_anonymous_voting' | 'add_bot' | 'set_assistant' | 'reveal_next_player' | 'show_vote_distribution' | 'show_leaderboard' | 'pause_game' | 'resume_game' | 'set_auto_advance' | 'reset_network' | 'clear_compression' | 'cleanup_sessions' | 'simulate_error' | 'export_system_data';
   playerId?: string;
   role?: PlayerRole;
   duration?: number; // in seconds
+  packId?: string;
+  pack?: PromptPack; // custom pack uploaded by the host, validated on the server
+  rounds?: PromptPackRound[]; // rounds written in the host prompt editor
+  roleSettings?: RoleSettings;
+  scoringPreset?: ScoringPresetId;
+  gameMode?: GameMode;
+  anonymousVoting?: boolean;
+  autoAdvance?: boolean;
+  assistant?: AssistantConfig | null; // null turns the assistant off
 }
\ No newline at end of file